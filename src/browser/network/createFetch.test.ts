@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { createFetch, joinUrl } from "./createFetch";
+import { createFetchCache } from "./fetchCache";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const jsonResponse = (body: unknown, status = 200) =>
+	new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json" },
+	});
+
+const lastRequest = () => {
+	const [url, init] = fetchMock.mock.lastCall!;
+	return { url, headers: new Headers(init?.headers) };
+};
+
+describe("createFetch", () => {
+	vi.stubGlobal("fetch", fetchMock);
+
+	afterEach(() => {
+		fetchMock.mockReset();
+	});
+
+	it("should join base and relative URLs", () => {
+		expect(joinUrl("https://api.test/v1/", "/rooms")).toBe(
+			"https://api.test/v1/rooms",
+		);
+		expect(joinUrl("https://api.test/v1", "rooms")).toBe(
+			"https://api.test/v1/rooms",
+		);
+		expect(joinUrl("https://api.test", "https://cdn.test/a")).toBe(
+			"https://cdn.test/a",
+		);
+		expect(joinUrl(undefined, "/rooms")).toBe("/rooms");
+	});
+
+	it("should apply the base URL and merge headers", async () => {
+		fetchMock.mockResolvedValue(jsonResponse([]));
+		const useApi = createFetch({
+			baseUrl: "https://api.test",
+			headers: { Accept: "application/json", "X-Client": "desk" },
+			sharedCache: createFetchCache(new Map()),
+		});
+
+		const path = ref("/rooms");
+		const { data, stop } = useApi(path, { headers: { "X-Client": "kiosk" } });
+		await vi.waitFor(() => expect(data.value).toEqual([]));
+
+		const { url, headers } = lastRequest();
+		expect(url).toBe("https://api.test/rooms");
+		expect(headers.get("accept")).toBe("application/json");
+		expect(headers.get("x-client")).toBe("kiosk");
+
+		path.value = "/guests";
+		await vi.waitFor(() =>
+			expect(lastRequest().url).toBe("https://api.test/guests"),
+		);
+		stop();
+	});
+
+	it("should run interceptors around the request", async () => {
+		fetchMock.mockResolvedValue(jsonResponse({ total: 3 }));
+		const onError = vi.fn<(error: Error) => void>();
+		const useApi = createFetch({
+			sharedCache: createFetchCache(new Map()),
+			beforeRequest: ({ url, init }) => ({
+				url,
+				init: { ...init, headers: { Authorization: "Bearer abc" } },
+			}),
+			afterResponse: () => jsonResponse({ total: 4 }),
+			onError,
+		});
+
+		const { data, stop } = useApi("/stats");
+		await vi.waitFor(() => expect(data.value).toEqual({ total: 4 }));
+
+		expect(lastRequest().headers.get("authorization")).toBe("Bearer abc");
+		expect(onError).not.toHaveBeenCalled();
+		stop();
+	});
+
+	it("should refresh the token once on 401 and replay", async () => {
+		let token = "expired";
+		const refreshToken = vi.fn(async () => {
+			token = "fresh";
+		});
+		fetchMock.mockImplementation(async (_url, init) =>
+			new Headers(init?.headers).get("authorization") === "Bearer fresh"
+				? jsonResponse({ ok: true })
+				: jsonResponse({ message: "Unauthorized" }, 401),
+		);
+		const useApi = createFetch({
+			sharedCache: createFetchCache(new Map()),
+			beforeRequest: ({ url, init }) => ({
+				url,
+				init: { ...init, headers: { Authorization: `Bearer ${token}` } },
+			}),
+			refreshToken,
+		});
+
+		const first = useApi("/me");
+		const second = useApi("/bookings");
+		await vi.waitFor(() => {
+			expect(first.data.value).toEqual({ ok: true });
+			expect(second.data.value).toEqual({ ok: true });
+		});
+
+		expect(refreshToken).toHaveBeenCalledTimes(1);
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+		first.stop();
+		second.stop();
+	});
+
+	it("should keep the 401 when the refresh fails", async () => {
+		fetchMock.mockResolvedValue(jsonResponse({}, 401));
+		const onError = vi.fn<(error: Error) => void>();
+		const useApi = createFetch({
+			sharedCache: createFetchCache(new Map()),
+			refreshToken: async () => false,
+			onError,
+		});
+
+		const { error, stop } = useApi("/me");
+		await vi.waitFor(() => expect(error.value).not.toBeNull());
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 401 }),
+		);
+		stop();
+	});
+
+	it("should read the body as the given response type", async () => {
+		const useApi = createFetch({ sharedCache: createFetchCache(new Map()) });
+
+		fetchMock.mockResolvedValueOnce(new Response("plain"));
+		const text = useApi<string>("/note", { responseType: "text" });
+		await vi.waitFor(() => expect(text.data.value).toBe("plain"));
+
+		fetchMock.mockResolvedValueOnce(new Response("bytes"));
+		const blob = useApi<Blob>("/file", { responseType: "blob" });
+		await vi.waitFor(() => expect(blob.data.value?.size).toBe(5));
+
+		fetchMock.mockResolvedValueOnce(new Response("chunks"));
+		const stream = useApi<ReadableStream>("/feed", {
+			responseType: "stream",
+		});
+		await vi.waitFor(() =>
+			expect(stream.data.value).toBeInstanceOf(ReadableStream),
+		);
+
+		text.stop();
+		blob.stop();
+		stream.stop();
+	});
+});
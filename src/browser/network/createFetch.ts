@@ -0,0 +1,131 @@
+import { computed, isRef, type Ref } from "vue";
+import {
+	type AfterResponseHook,
+	type BeforeRequestHook,
+	type UseFetchOptions,
+	useFetch,
+} from "./useFetch";
+
+export interface CreateFetchOptions extends UseFetchOptions {
+	/** Prepended to relative URLs */
+	baseUrl?: string;
+	/**
+	 * Called once when a request comes back 401, however many are waiting.
+	 * The requests are then sent again, unless it resolved false or threw.
+	 */
+	refreshToken?: () => Promise<boolean | void>;
+}
+
+const isAbsolute = (url: string) => /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url);
+
+export function joinUrl(baseUrl: string | undefined, url: string) {
+	if (!baseUrl || isAbsolute(url)) return url;
+	if (!url) return baseUrl;
+	return `${baseUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+const mergeHeaders = (...sources: (HeadersInit | undefined)[]) => {
+	const headers = new Headers();
+	sources.forEach((source) => {
+		new Headers(source).forEach((value, name) => {
+			headers.set(name, value);
+		});
+	});
+	return headers;
+};
+
+/** Runs hooks in order, each one seeing what the previous returned */
+const chainBefore = (
+	...hooks: (BeforeRequestHook | undefined)[]
+): BeforeRequestHook | undefined => {
+	const defined = hooks.filter((hook) => !!hook);
+	if (defined.length === 0) return undefined;
+
+	return async (context) => {
+		let current = context;
+		for (const hook of defined) {
+			current = (await hook(current)) ?? current;
+		}
+		return current;
+	};
+};
+
+const chainAfter = (
+	...hooks: (AfterResponseHook | undefined)[]
+): AfterResponseHook | undefined => {
+	const defined = hooks.filter((hook) => !!hook);
+	if (defined.length === 0) return undefined;
+
+	return async (context) => {
+		let response = context.response;
+		for (const hook of defined) {
+			response = (await hook({ ...context, response })) ?? response;
+		}
+		return response;
+	};
+};
+
+/**
+ * Replays a request that came back 401 once `refresh` resolves. Concurrent
+ * 401s share one refresh.
+ */
+export function refreshOn401(
+	refresh: () => Promise<boolean | void>,
+): AfterResponseHook {
+	let refreshing: Promise<boolean | void> | null = null;
+
+	return async ({ response, replay }) => {
+		if (response.status !== 401) return;
+
+		refreshing ??= refresh().finally(() => {
+			refreshing = null;
+		});
+		try {
+			if ((await refreshing) === false) return;
+		} catch {
+			return;
+		}
+		return replay();
+	};
+}
+
+/**
+ * Returns a `useFetch` with defaults for every request, e.g. an API's base
+ * URL, headers and auth handling. Options given per request extend them.
+ */
+export function createFetch(config: CreateFetchOptions = {}) {
+	const {
+		baseUrl,
+		refreshToken,
+		headers,
+		beforeRequest,
+		afterResponse,
+		onError,
+		...defaults
+	} = config;
+	const refresh = refreshToken && refreshOn401(refreshToken);
+
+	return <T>(url: string | Ref<string>, options: UseFetchOptions = {}) => {
+		const resolved = isRef(url)
+			? computed(() => joinUrl(baseUrl, url.value))
+			: joinUrl(baseUrl, url);
+
+		const hooks = {
+			beforeRequest: chainBefore(beforeRequest, options.beforeRequest),
+			afterResponse: chainAfter(afterResponse, refresh, options.afterResponse),
+			onError: (error: Error) => {
+				onError?.(error);
+				options.onError?.(error);
+			},
+		};
+
+		return useFetch<T>(resolved, {
+			...defaults,
+			...options,
+			headers: mergeHeaders(headers, options.headers),
+			...(hooks.beforeRequest && { beforeRequest: hooks.beforeRequest }),
+			...(hooks.afterResponse && { afterResponse: hooks.afterResponse }),
+			onError: hooks.onError,
+		});
+	};
+}
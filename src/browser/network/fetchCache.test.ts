@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	buildCacheKey,
+	type CacheEvent,
+	createFetchCache,
+} from "./fetchCache";
+
+describe("fetchCache", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should build keys with sorted params", () => {
+		expect(buildCacheKey("/rooms", { floor: 2, area: "north" })).toBe(
+			"/rooms?area=north&floor=2",
+		);
+		expect(buildCacheKey("/rooms?all=1", { floor: null })).toBe(
+			"/rooms?all=1",
+		);
+		expect(buildCacheKey("/rooms?all=1", { floor: 2 })).toBe(
+			"/rooms?all=1&floor=2",
+		);
+	});
+
+	it("should share requests in flight and store the result", async () => {
+		const cache = createFetchCache(new Map());
+		const request = vi.fn(async () => ["A1"]);
+
+		const first = cache.fetch("/rooms", request);
+		const second = cache.fetch("/rooms", request);
+		expect(cache.isPending("/rooms")).toBe(true);
+
+		expect(await second.promise).toEqual(["A1"]);
+		expect(await first.promise).toEqual(["A1"]);
+		expect(request).toHaveBeenCalledTimes(1);
+		expect(cache.isPending("/rooms")).toBe(false);
+		expect(cache.get("/rooms")?.data).toEqual(["A1"]);
+	});
+
+	it("should abort a request once every caller released it", async () => {
+		const cache = createFetchCache(new Map());
+		let signal: AbortSignal | undefined;
+		const request = (s: AbortSignal) => {
+			signal = s;
+			return new Promise<string>(() => {});
+		};
+
+		const first = cache.fetch("/slow", request);
+		const second = cache.fetch("/slow", request);
+		first.release();
+		expect(signal?.aborted).toBe(false);
+
+		second.release();
+		expect(signal?.aborted).toBe(true);
+		expect(cache.isPending("/slow")).toBe(false);
+	});
+
+	it("should report failures to listeners", async () => {
+		const cache = createFetchCache(new Map());
+		const listener = vi.fn<(event: CacheEvent) => void>();
+		cache.subscribe("/broken", listener, Infinity);
+
+		const { promise } = cache.fetch("/broken", async () => {
+			throw new Error("Server error");
+		});
+
+		await expect(promise).rejects.toThrow("Server error");
+		expect(listener).toHaveBeenCalledWith({
+			type: "error",
+			error: new Error("Server error"),
+		});
+		expect(cache.get("/broken")).toBeUndefined();
+	});
+
+	it("should drop unused entries after cacheTime", () => {
+		vi.useFakeTimers();
+		const cache = createFetchCache(new Map());
+		cache.set("/rooms", ["A1"]);
+
+		const unsubscribe = cache.subscribe("/rooms", () => {}, 1000);
+		unsubscribe();
+		vi.advanceTimersByTime(999);
+		expect(cache.get("/rooms")).toBeDefined();
+
+		// Subscribing again keeps the entry alive
+		cache.subscribe("/rooms", () => {}, 1000);
+		vi.advanceTimersByTime(1000);
+		expect(cache.get("/rooms")).toBeDefined();
+	});
+
+	it("should mark invalidated entries stale", () => {
+		const cache = createFetchCache(new Map());
+		cache.set("/rooms", ["A1"]);
+		cache.set("/guests", ["Ada"]);
+		const listener = vi.fn<(event: CacheEvent) => void>();
+		cache.subscribe("/rooms", listener, Infinity);
+
+		cache.invalidate((key) => key.startsWith("/rooms"));
+
+		expect(cache.get("/rooms")?.updatedAt).toBe(0);
+		expect(cache.get("/guests")?.updatedAt).not.toBe(0);
+		expect(listener).toHaveBeenCalledWith({ type: "invalidate" });
+	});
+});
@@ -0,0 +1,238 @@
+import { type RetryPolicy, wait } from "./retry";
+
+export interface CacheEntry<T = unknown> {
+	data: T;
+	/** Epoch milliseconds of the last write; 0 once invalidated */
+	updatedAt: number;
+}
+
+/** Where entries live; a plain `Map` works, e.g. for tests */
+export interface FetchCacheStore {
+	get: (key: string) => CacheEntry | undefined;
+	set: (key: string, entry: CacheEntry) => void;
+	delete: (key: string) => void;
+	keys: () => Iterable<string>;
+}
+
+export type CacheEvent =
+	| { type: "update"; entry: CacheEntry }
+	| { type: "error"; error: unknown }
+	| { type: "retry"; attempt: number; error: unknown }
+	| { type: "invalidate" }
+	| { type: "delete" };
+
+export type CacheKeyFilter = string | ((key: string) => boolean);
+
+interface InflightRequest {
+	promise: Promise<unknown>;
+	controller: AbortController;
+	waiters: number;
+}
+
+/**
+ * Shared state behind `useFetch`: cached responses, requests in flight
+ * and the instances listening to each key.
+ */
+export function createFetchCache(store: FetchCacheStore = new Map()) {
+	const listeners = new Map<string, Set<(event: CacheEvent) => void>>();
+	const inflight = new Map<string, InflightRequest>();
+	const gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+	const emit = (key: string, event: CacheEvent) => {
+		listeners.get(key)?.forEach((listener) => {
+			listener(event);
+		});
+	};
+
+	// Keys with an entry or a listener, e.g. one whose request failed
+	const matches = (filter: CacheKeyFilter | undefined) =>
+		[...new Set([...store.keys(), ...listeners.keys()])].filter((key) =>
+			filter === undefined
+				? true
+				: typeof filter === "string"
+					? key === filter
+					: filter(key),
+		);
+
+	const get = <T>(key: string) =>
+		store.get(key) as CacheEntry<T> | undefined;
+
+	const set = <T>(key: string, data: T) => {
+		const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+		store.set(key, entry);
+		emit(key, { type: "update", entry });
+	};
+
+	const remove = (key: string) => {
+		store.delete(key);
+		emit(key, { type: "delete" });
+	};
+
+	/** Puts back an entry taken with `get()`, e.g. to undo a `mutate()` */
+	const restore = (key: string, entry: CacheEntry | undefined) => {
+		if (!entry) {
+			remove(key);
+			return;
+		}
+		store.set(key, entry);
+		emit(key, { type: "update", entry });
+	};
+
+	/** Whether a request for `key` is in flight */
+	const isPending = (key: string) => inflight.has(key);
+
+	/**
+	 * Runs `request` unless one is already in flight for `key`, in which
+	 * case its promise is shared. Listeners hear about the result as soon
+	 * as `parse` settles. Failures are tried again while `retry` returns a
+	 * delay. The request is aborted once every caller has released it.
+	 */
+	const fetch = <R, T = R>(
+		key: string,
+		request: (signal: AbortSignal) => Promise<R>,
+		parse?: (response: R) => T | Promise<T>,
+		retry?: RetryPolicy,
+	) => {
+		let current = inflight.get(key);
+		if (!current) {
+			const controller = new AbortController();
+			const entry = { controller, waiters: 0 } as InflightRequest;
+			const settle = () => {
+				if (inflight.get(key) === entry) inflight.delete(key);
+			};
+			const { signal } = controller;
+			entry.promise = (async () => {
+				for (let attempt = 1; ; attempt++) {
+					try {
+						const response = await request(signal);
+						const data = (await (parse ? parse(response) : response)) as T;
+						settle();
+						if (!signal.aborted) set(key, data);
+						return data;
+					} catch (error) {
+						const delay = signal.aborted ? false : retry?.(error, attempt);
+						if (typeof delay !== "number") {
+							settle();
+							if (!signal.aborted) emit(key, { type: "error", error });
+							throw error;
+						}
+						emit(key, { type: "retry", attempt, error });
+						await wait(delay, signal);
+					}
+				}
+			})();
+			inflight.set(key, entry);
+			current = entry;
+		}
+
+		const shared = current;
+		shared.waiters++;
+		let released = false;
+
+		return {
+			promise: shared.promise as Promise<T>,
+			release: () => {
+				if (released) return;
+				released = true;
+				shared.waiters--;
+				if (shared.waiters === 0 && inflight.get(key) === shared) {
+					inflight.delete(key);
+					shared.controller.abort();
+				}
+			},
+		};
+	};
+
+	const subscribe = (
+		key: string,
+		listener: (event: CacheEvent) => void,
+		cacheTime: number,
+	) => {
+		clearTimeout(gcTimers.get(key));
+		gcTimers.delete(key);
+
+		const keyListeners = listeners.get(key) ?? new Set();
+		keyListeners.add(listener);
+		listeners.set(key, keyListeners);
+
+		return () => {
+			keyListeners.delete(listener);
+			if (keyListeners.size > 0) return;
+
+			// Unused entries are dropped after `cacheTime`
+			listeners.delete(key);
+			if (Number.isFinite(cacheTime)) {
+				gcTimers.set(
+					key,
+					setTimeout(() => {
+						gcTimers.delete(key);
+						store.delete(key);
+					}, cacheTime),
+				);
+			}
+		};
+	};
+
+	/** Marks entries stale and makes mounted instances refetch them */
+	const invalidate = (filter?: CacheKeyFilter) => {
+		matches(filter).forEach((key) => {
+			const entry = store.get(key);
+			if (entry) store.set(key, { ...entry, updatedAt: 0 });
+			emit(key, { type: "invalidate" });
+		});
+	};
+
+	/** Writes data into the cache and updates every instance showing it */
+	const mutate = <T>(key: string, data: T | ((current?: T) => T)) => {
+		const next =
+			typeof data === "function"
+				? (data as (current?: T) => T)(get<T>(key)?.data)
+				: data;
+		set(key, next);
+		return next;
+	};
+
+	const clear = () => {
+		[...store.keys()].forEach(remove);
+	};
+
+	return {
+		store,
+		get,
+		set,
+		remove,
+		restore,
+		isPending,
+		fetch,
+		subscribe,
+		invalidate,
+		mutate,
+		clear,
+	};
+}
+
+export type FetchCache = ReturnType<typeof createFetchCache>;
+
+/** The cache `useFetch` uses unless given another one */
+export const fetchCache = createFetchCache();
+
+export const invalidate = (filter?: CacheKeyFilter) =>
+	fetchCache.invalidate(filter);
+
+export const mutate = <T>(key: string, data: T | ((current?: T) => T)) =>
+	fetchCache.mutate(key, data);
+
+/** Appends params as a sorted query string, so equal params share a key */
+export function buildCacheKey(
+	url: string,
+	params?: Record<string, unknown> | null,
+) {
+	const entries = Object.entries(params ?? {})
+		.filter(([, value]) => value !== undefined && value !== null)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([key, value]) => [key, String(value)]);
+	if (entries.length === 0) return url;
+
+	const query = new URLSearchParams(entries).toString();
+	return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
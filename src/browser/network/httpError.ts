@@ -0,0 +1,43 @@
+/** A response outside the 2xx range, with what the server sent back */
+export class HttpError<B = unknown> extends Error {
+	readonly status: number;
+	readonly statusText: string;
+	readonly headers: Headers;
+	/** Parsed as JSON when the server says so, otherwise text */
+	readonly body: B;
+	readonly url: string;
+
+	constructor(
+		response: Pick<Response, "status" | "statusText" | "url"> & {
+			headers?: HeadersInit;
+		},
+		body: B,
+	) {
+		super(
+			response.statusText || `Request failed with status ${response.status}`,
+		);
+		this.name = "HttpError";
+		this.status = response.status;
+		this.statusText = response.statusText;
+		this.headers = new Headers(response.headers);
+		this.body = body;
+		this.url = response.url;
+	}
+
+	/** Reads the body of a failed response; unreadable bodies are undefined */
+	static async fromResponse<B = unknown>(response: Response) {
+		const type = new Headers(response.headers).get("content-type") ?? "";
+		let body: unknown;
+		try {
+			body = type.includes("json")
+				? await response.json()
+				: await response.text();
+		} catch {
+			body = undefined;
+		}
+		return new HttpError<B>(response, body as B);
+	}
+}
+
+export const isHttpError = (error: unknown): error is HttpError =>
+	error instanceof HttpError;
@@ -1,4 +1,10 @@
+export * from "./createFetch";
+export * from "./fetchCache";
+export * from "./httpError";
+export * from "./retry";
 export * from "./useFetch";
+export * from "./useMutation";
+export * from "./useOfflineQueue";
 export * from "./useOnline";
 export * from "./useUrl";
 export * from "./useWebSocket";
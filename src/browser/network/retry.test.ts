@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HttpError } from "./httpError";
+import { createRetryPolicy, parseRetryAfter, wait } from "./retry";
+
+const httpError = (status: number, headers: HeadersInit = {}) =>
+	new HttpError({ status, statusText: "", url: "/rooms", headers }, null);
+
+describe("retry", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should parse Retry-After seconds and dates", () => {
+		const now = Date.parse("2026-03-01T10:00:00Z");
+		expect(parseRetryAfter("120", now)).toBe(120_000);
+		expect(parseRetryAfter("Sun, 01 Mar 2026 10:00:30 GMT", now)).toBe(
+			30_000,
+		);
+		expect(parseRetryAfter("Sun, 01 Mar 2026 09:00:00 GMT", now)).toBe(0);
+		expect(parseRetryAfter("soon", now)).toBeNull();
+		expect(parseRetryAfter(null, now)).toBeNull();
+	});
+
+	it("should back off exponentially up to maxDelay", () => {
+		const policy = createRetryPolicy({
+			retries: 5,
+			delay: 100,
+			maxDelay: 500,
+			jitter: false,
+		})!;
+		const error = httpError(503);
+
+		expect([1, 2, 3, 4, 5].map((attempt) => policy(error, attempt))).toEqual(
+			[100, 200, 400, 500, 500],
+		);
+		expect(policy(error, 6)).toBe(false);
+	});
+
+	it("should add jitter within half the delay", () => {
+		vi.spyOn(Math, "random").mockReturnValue(0);
+		const policy = createRetryPolicy({ delay: 1000 })!;
+		expect(policy(httpError(503), 2)).toBe(1000);
+	});
+
+	it("should honour Retry-After", () => {
+		const policy = createRetryPolicy({ maxDelay: 10_000 })!;
+		expect(policy(httpError(429, { "Retry-After": "3" }), 1)).toBe(3000);
+		expect(policy(httpError(429, { "Retry-After": "60" }), 1)).toBe(10_000);
+	});
+
+	it("should only retry transient failures", () => {
+		const policy = createRetryPolicy(true)!;
+		expect(policy(httpError(409), 1)).toBe(false);
+		expect(policy(httpError(500), 1)).not.toBe(false);
+		expect(policy(new TypeError("Failed to fetch"), 1)).not.toBe(false);
+		expect(policy(new DOMException("", "AbortError"), 1)).toBe(false);
+	});
+
+	it("should skip methods that aren't idempotent", () => {
+		expect(createRetryPolicy(3, "POST")).toBeUndefined();
+		expect(createRetryPolicy(3, "put")).toBeDefined();
+		expect(createRetryPolicy(0)).toBeUndefined();
+		expect(createRetryPolicy({ methods: ["POST"] }, "POST")).toBeDefined();
+	});
+
+	it("should stop waiting when aborted", async () => {
+		vi.useFakeTimers();
+		const controller = new AbortController();
+		const waiting = wait(1000, controller.signal);
+
+		controller.abort(new Error("Cancelled"));
+		await expect(waiting).rejects.toThrow("Cancelled");
+	});
+});
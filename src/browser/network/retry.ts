@@ -0,0 +1,101 @@
+import { isHttpError } from "./httpError";
+
+export interface RetryOptions {
+	/** Attempts after the first one */
+	retries?: number;
+	/** Delay in ms before the first retry, doubled for each one after */
+	delay?: number;
+	maxDelay?: number;
+	/** Spreads retries out so clients don't come back all at once */
+	jitter?: boolean;
+	/** Response statuses worth another attempt */
+	statuses?: number[];
+	/** Only idempotent methods are retried by default */
+	methods?: string[];
+	/** Final say on whether an error is retried */
+	shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/** Returns the delay before attempt `attempt`, or false to give up */
+export type RetryPolicy = (error: unknown, attempt: number) => number | false;
+
+const RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Reads a `Retry-After` header, given in seconds or as an HTTP date.
+ * Returns the delay in ms, or null when missing or invalid.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+	if (!value) return null;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Network failures, timeouts and retryable statuses; never aborts */
+const isRetryable = (error: unknown, statuses: number[]) => {
+	if (isHttpError(error)) return statuses.includes(error.status);
+	const name = (error as Error | undefined)?.name;
+	return name === "TypeError" || name === "TimeoutError";
+};
+
+export function createRetryPolicy(
+	options: RetryOptions | number | boolean | undefined,
+	method = "GET",
+): RetryPolicy | undefined {
+	if (!options) return undefined;
+
+	const {
+		retries = 3,
+		delay = 1000,
+		maxDelay = 30_000,
+		jitter = true,
+		statuses = RETRY_STATUSES,
+		methods = IDEMPOTENT_METHODS,
+		shouldRetry,
+	} = typeof options === "object"
+		? options
+		: { retries: options === true ? undefined : options };
+
+	if (!methods.includes(method.toUpperCase())) return undefined;
+
+	return (error, attempt) => {
+		if (attempt > retries) return false;
+		const retryable = shouldRetry
+			? shouldRetry(error, attempt)
+			: isRetryable(error, statuses);
+		if (!retryable) return false;
+
+		// The server knows best when it will be ready again
+		if (isHttpError(error)) {
+			const retryAfter = parseRetryAfter(error.headers.get("retry-after"));
+			if (retryAfter !== null) return Math.min(retryAfter, maxDelay);
+		}
+
+		const backoff = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+		return jitter ? backoff / 2 + (Math.random() * backoff) / 2 : backoff;
+	};
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts */
+export function wait(ms: number, signal?: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
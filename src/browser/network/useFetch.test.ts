@@ -1,4 +1,6 @@
 import { nextTick, ref } from "vue";
+import { createFetchCache } from "./fetchCache";
+import { HttpError } from "./httpError";
 import { useFetch } from "./useFetch";
 
 // Mock fetch
@@ -82,4 +84,336 @@ describe("useFetch", () => {
 		expect(aborted.value).toBe(true);
 		expect(isFetching.value).toBe(false);
 	});
+
+	describe("cache", () => {
+		afterEach(() => {
+			(fetch as any).mockReset();
+		});
+
+		const respond = (body: unknown) =>
+			(fetch as any).mockResolvedValueOnce({
+				ok: true,
+				json: () => Promise.resolve(body),
+			});
+
+		// Instances from earlier tests listen for focus too
+		const callsTo = (url: string) =>
+			(fetch as any).mock.calls.filter(
+				([called]: [string]) => called === url,
+			).length;
+
+		it("should share one request between instances", async () => {
+			const cache = createFetchCache(new Map());
+			respond([{ id: 1 }]);
+
+			const first = useFetch("/bookings", { sharedCache: cache });
+			const second = useFetch("/bookings", { sharedCache: cache });
+			expect(second.isFetching.value).toBe(true);
+
+			await nextTick();
+			await nextTick();
+
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(first.data.value).toEqual([{ id: 1 }]);
+			expect(second.data.value).toEqual([{ id: 1 }]);
+			expect(second.isFetching.value).toBe(false);
+			first.stop();
+			second.stop();
+		});
+
+		it("should key the cache by url and params", async () => {
+			const cache = createFetchCache(new Map());
+			respond([]);
+
+			const { key, stop } = useFetch("/bookings", {
+				sharedCache: cache,
+				params: { status: "open", page: 2, q: undefined },
+			});
+			await nextTick();
+			await nextTick();
+
+			expect(key.value).toBe("/bookings?page=2&status=open");
+			expect(fetch).toHaveBeenCalledWith(key.value, expect.any(Object));
+			expect(cache.get(key.value)?.data).toEqual([]);
+			stop();
+		});
+
+		it("should serve fresh data without requesting", async () => {
+			const store = new Map();
+			const cache = createFetchCache(store);
+			store.set("/rooms", { data: ["A1"], updatedAt: Date.now() });
+
+			const { data, isFetching, stop } = useFetch("/rooms", {
+				sharedCache: cache,
+				staleTime: 60_000,
+			});
+
+			expect(data.value).toEqual(["A1"]);
+			expect(isFetching.value).toBe(false);
+			expect(fetch).not.toHaveBeenCalled();
+			stop();
+		});
+
+		it("should refetch stale data on window focus", async () => {
+			const store = new Map();
+			const cache = createFetchCache(store);
+			store.set("/rooms", { data: ["A1"], updatedAt: Date.now() - 5000 });
+			const rooms = [["A1"], ["A1", "B2"]];
+			(fetch as any).mockImplementation(async (url: string) =>
+				url === "/rooms"
+					? { ok: true, json: () => Promise.resolve(rooms.shift()) }
+					: undefined,
+			);
+
+			const { data, stop } = useFetch("/rooms", {
+				sharedCache: cache,
+				staleTime: 1000,
+			});
+			await nextTick();
+			await nextTick();
+			window.dispatchEvent(new Event("focus"));
+			expect(callsTo("/rooms")).toBe(1);
+
+			store.set("/rooms", { data: ["A1"], updatedAt: Date.now() - 5000 });
+			window.dispatchEvent(new Event("focus"));
+			await nextTick();
+			await nextTick();
+
+			expect(callsTo("/rooms")).toBe(2);
+			expect(data.value).toEqual(["A1", "B2"]);
+			stop();
+		});
+
+		it("should refetch every instance of an invalidated key", async () => {
+			const cache = createFetchCache(new Map());
+			respond({ total: 1 });
+			respond({ total: 2 });
+
+			const first = useFetch("/stats", { sharedCache: cache });
+			const second = useFetch("/stats", {
+				sharedCache: cache,
+				immediate: false,
+			});
+			await nextTick();
+			await nextTick();
+
+			cache.invalidate((key) => key.startsWith("/stats"));
+			await nextTick();
+			await nextTick();
+
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(first.data.value).toEqual({ total: 2 });
+			expect(second.data.value).toEqual({ total: 2 });
+			first.stop();
+			second.stop();
+		});
+
+		it("should update every instance on mutate", async () => {
+			const cache = createFetchCache(new Map());
+			respond({ name: "Ada" });
+
+			const first = useFetch<{ name: string }>("/me", { sharedCache: cache });
+			const second = useFetch<{ name: string }>("/me", { sharedCache: cache });
+			await nextTick();
+			await nextTick();
+
+			first.mutate((current) => ({ ...current, name: "Grace" }));
+			expect(second.data.value).toEqual({ name: "Grace" });
+			expect(cache.get("/me")?.data).toEqual({ name: "Grace" });
+			first.stop();
+			second.stop();
+		});
+
+		it("should not cache other methods", async () => {
+			const cache = createFetchCache(new Map());
+			respond({ id: 7 });
+
+			const { data, stop } = useFetch("/bookings", {
+				sharedCache: cache,
+				method: "POST",
+			});
+			await nextTick();
+			await nextTick();
+
+			expect(data.value).toEqual({ id: 7 });
+			expect(cache.get("/bookings")).toBeUndefined();
+			stop();
+		});
+
+		it("should not share streams", async () => {
+			const cache = createFetchCache(new Map());
+			(fetch as any).mockImplementation(async () => ({
+				ok: true,
+				body: new ReadableStream(),
+			}));
+
+			const first = useFetch("/feed", {
+				sharedCache: cache,
+				responseType: "stream",
+			});
+			const second = useFetch("/feed", {
+				sharedCache: cache,
+				responseType: "stream",
+			});
+			await nextTick();
+			await nextTick();
+
+			expect(callsTo("/feed")).toBe(2);
+			expect(first.data.value).toBeInstanceOf(ReadableStream);
+			expect(second.data.value).not.toBe(first.data.value);
+			expect(cache.get("/feed")).toBeUndefined();
+			first.stop();
+			second.stop();
+		});
+
+		it("should cache other response types and headers apart", async () => {
+			const cache = createFetchCache(new Map());
+			(fetch as any).mockImplementation(async () => new Response('{"id":1}'));
+
+			const json = useFetch("/room", { sharedCache: cache });
+			const text = useFetch<string>("/room", {
+				sharedCache: cache,
+				responseType: "text",
+			});
+			const other = useFetch("/room", {
+				sharedCache: cache,
+				headers: { Authorization: "Bearer other" },
+			});
+			await vi.waitFor(() => {
+				expect(json.data.value).toEqual({ id: 1 });
+				expect(text.data.value).toBe('{"id":1}');
+				expect(other.data.value).toEqual({ id: 1 });
+			});
+
+			expect(callsTo("/room")).toBe(3);
+			expect(json.key.value).toBe("/room");
+			expect(text.key.value).toBe("/room#text");
+			expect(other.key.value).not.toBe("/room");
+			expect(other.key.value).not.toContain("Bearer");
+			json.stop();
+			text.stop();
+			other.stop();
+		});
+	});
+
+	describe("errors and retries", () => {
+		const failure = (status: number, body: unknown, headers = {}) => ({
+			ok: false,
+			status,
+			statusText: "",
+			url: "/bookings",
+			headers: { "Content-Type": "application/json", ...headers },
+			json: () => Promise.resolve(body),
+		});
+
+		afterEach(() => {
+			(fetch as any).mockReset();
+			vi.useRealTimers();
+		});
+
+		it("should reject with a typed HttpError", async () => {
+			const cache = createFetchCache(new Map());
+			(fetch as any).mockResolvedValueOnce(
+				failure(409, { code: "ROOM_TAKEN" }),
+			);
+
+			const { error, stop } = useFetch("/bookings/9", {
+				sharedCache: cache,
+			});
+			await vi.waitFor(() => expect(error.value).not.toBeNull());
+
+			const httpError = error.value as HttpError;
+			expect(httpError).toBeInstanceOf(HttpError);
+			expect(httpError.status).toBe(409);
+			expect(httpError.body).toEqual({ code: "ROOM_TAKEN" });
+			expect(httpError.message).toBe("Request failed with status 409");
+			stop();
+		});
+
+		it("should retry with backoff and count attempts", async () => {
+			vi.useFakeTimers();
+			const cache = createFetchCache(new Map());
+			(fetch as any)
+				.mockResolvedValueOnce(failure(503, null))
+				.mockRejectedValueOnce(new TypeError("Failed to fetch"))
+				.mockResolvedValueOnce({
+					ok: true,
+					json: () => Promise.resolve({ id: 9 }),
+				});
+
+			const { data, retryCount, isFetching, stop } = useFetch("/bookings/9", {
+				sharedCache: cache,
+				retry: { retries: 2, delay: 100, jitter: false },
+			});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(retryCount.value).toBe(1);
+			expect(isFetching.value).toBe(true);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(retryCount.value).toBe(2);
+			expect(fetch).toHaveBeenCalledTimes(2);
+
+			await vi.advanceTimersByTimeAsync(200);
+			expect(fetch).toHaveBeenCalledTimes(3);
+			expect(data.value).toEqual({ id: 9 });
+			expect(isFetching.value).toBe(false);
+			stop();
+		});
+
+		it("should wait as long as Retry-After asks", async () => {
+			vi.useFakeTimers();
+			const cache = createFetchCache(new Map());
+			(fetch as any)
+				.mockResolvedValueOnce(failure(429, null, { "Retry-After": "2" }))
+				.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([]) });
+
+			const { data, stop } = useFetch("/rooms", {
+				sharedCache: cache,
+				retry: 1,
+			});
+			await vi.advanceTimersByTimeAsync(1999);
+			expect(fetch).toHaveBeenCalledTimes(1);
+
+			await vi.advanceTimersByTimeAsync(1);
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(data.value).toEqual([]);
+			stop();
+		});
+
+		it("should not retry writes", async () => {
+			(fetch as any).mockResolvedValue(failure(503, null));
+
+			const { error, stop } = useFetch("/bookings", {
+				method: "POST",
+				retry: 3,
+			});
+			await vi.waitFor(() => expect(error.value).not.toBeNull());
+
+			expect(fetch).toHaveBeenCalledTimes(1);
+			stop();
+		});
+
+		it("should time out slow requests", async () => {
+			vi.useFakeTimers();
+			const cache = createFetchCache(new Map());
+			(fetch as any).mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal?.addEventListener("abort", () =>
+							reject(init.signal?.reason),
+						);
+					}),
+			);
+
+			const { error, isFetching, stop } = useFetch("/reports", {
+				sharedCache: cache,
+				timeout: 5000,
+			});
+			await vi.advanceTimersByTimeAsync(5000);
+
+			expect(error.value?.name).toBe("TimeoutError");
+			expect(isFetching.value).toBe(false);
+			stop();
+		});
+	});
 });
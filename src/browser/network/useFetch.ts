@@ -1,62 +1,341 @@
-import { isRef, type Ref, ref, unref, watch } from "vue";
+import {
+	computed,
+	getCurrentInstance,
+	isRef,
+	onUnmounted,
+	type Ref,
+	ref,
+	unref,
+	watch,
+} from "vue";
+import {
+	buildCacheKey,
+	type CacheEvent,
+	createFetchCache,
+	type FetchCache,
+	fetchCache,
+} from "./fetchCache";
+import { HttpError } from "./httpError";
+import { createRetryPolicy, type RetryOptions } from "./retry";
+import { useOnline } from "./useOnline";
 
-interface UseFetchOptions extends RequestInit {
+export type FetchParams = Record<
+	string,
+	string | number | boolean | null | undefined
+>;
+
+export type ResponseType = "json" | "text" | "blob" | "arrayBuffer" | "stream";
+
+export interface FetchContext {
+	url: string;
+	init: RequestInit;
+}
+
+export interface ResponseContext extends FetchContext {
+	response: Response;
+	/** Sends the request again, through `beforeRequest` but not this hook */
+	replay: () => Promise<Response>;
+}
+
+/** Can change the URL or init, e.g. to add an auth header */
+export type BeforeRequestHook = (
+	context: FetchContext,
+) => FetchContext | void | Promise<FetchContext | void>;
+
+/** Can swap the response, e.g. for a replayed one */
+export type AfterResponseHook = (
+	context: ResponseContext,
+) => Response | void | Promise<Response | void>;
+
+export interface UseFetchOptions extends RequestInit {
 	immediate?: boolean;
+	/** Appended to the URL as a query string and part of the cache key */
+	params?: FetchParams | Ref<FetchParams>;
+	/**
+	 * Overrides the cache key, which defaults to the URL with params plus
+	 * the response type and headers when they aren't the defaults
+	 */
+	key?: string;
+	/** How long in ms a response is fresh and served without a request */
+	staleTime?: number;
+	/** How long in ms an unused response stays in the cache */
+	cacheTime?: number;
+	revalidateOnFocus?: boolean;
+	/** Needs a component, as `useOnline` listens while mounted */
+	revalidateOnReconnect?: boolean;
+	/** Defaults to the shared `fetchCache`, e.g. a test's own instance */
+	sharedCache?: FetchCache;
+	/** Retries idempotent requests; a number sets how many times */
+	retry?: number | boolean | RetryOptions;
+	/** Aborts an attempt that takes longer than this many ms */
+	timeout?: number;
+	/** How the body is read; "stream" hands over `response.body` unread */
+	responseType?: ResponseType;
+	beforeRequest?: BeforeRequestHook;
+	afterResponse?: AfterResponseHook;
+	/** Called with the error a request finally failed with */
+	onError?: (error: Error) => void;
 }
 
+// A short hash, so header values such as tokens don't end up in the key
+const hashHeaders = (headers: HeadersInit | undefined) => {
+	const entries = [...new Headers(headers)];
+	if (entries.length === 0) return "";
+
+	let hash = 5381;
+	for (const char of JSON.stringify(entries)) {
+		hash = (hash * 33) ^ char.charCodeAt(0);
+	}
+	return (hash >>> 0).toString(36);
+};
+
 export function useFetch<T>(
 	url: string | Ref<string>,
 	options: UseFetchOptions = {},
 ) {
-	const data = ref<T | null>(null);
+	const data = ref<T | null>(null) as Ref<T | null>;
 	const error = ref<Error | null>(null);
 	const isFetching = ref(false);
 	const aborted = ref(false);
+	/** Retries made by the current request */
+	const retryCount = ref(0);
+
+	const {
+		immediate = true,
+		params,
+		key: customKey,
+		staleTime = 0,
+		cacheTime = 5 * 60 * 1000,
+		revalidateOnFocus = true,
+		revalidateOnReconnect = true,
+		sharedCache = fetchCache,
+		retry,
+		timeout,
+		responseType = "json",
+		beforeRequest,
+		afterResponse,
+		onError,
+		...fetchOptions
+	} = options;
 
-	const { immediate = true, ...fetchOptions } = options;
+	const requestUrl = computed(() => buildCacheKey(unref(url), unref(params)));
 
-	let controller: AbortController | undefined;
+	// Bodies read another way or sent with other headers are cached apart
+	const variant = [
+		responseType === "json" ? "" : responseType,
+		hashHeaders(fetchOptions.headers),
+	]
+		.filter(Boolean)
+		.join(":");
+	const key = computed(
+		() =>
+			customKey ??
+			(variant ? `${requestUrl.value}#${variant}` : requestUrl.value),
+	);
+
+	// Only reads are shared, and a stream can only be read once; other
+	// requests get a cache of their own
+	const method = (fetchOptions.method ?? "GET").toUpperCase();
+	const cacheable =
+		(method === "GET" || method === "HEAD") && responseType !== "stream";
+	const cache = cacheable ? sharedCache : createFetchCache();
+	const retryPolicy = createRetryPolicy(retry, method);
+
+	const send = (url: string, init: RequestInit, signal: AbortSignal) => {
+		if (!timeout) {
+			return fetch(url, { ...init, signal });
+		}
+
+		const controller = new AbortController();
+		const onAbort = () => controller.abort(signal.reason);
+		signal.addEventListener("abort", onAbort);
+		const timer = setTimeout(() => {
+			controller.abort(
+				new DOMException(`Timed out after ${timeout}ms`, "TimeoutError"),
+			);
+		}, timeout);
+
+		return fetch(url, { ...init, signal: controller.signal }).finally(() => {
+			clearTimeout(timer);
+			signal.removeEventListener("abort", onAbort);
+		});
+	};
+
+	const intercept = async (signal: AbortSignal) => {
+		const prepare = async () => {
+			const context = { url: requestUrl.value, init: { ...fetchOptions } };
+			return (await beforeRequest?.(context)) ?? context;
+		};
+
+		const context = await prepare();
+		const response = await send(context.url, context.init, signal);
+		if (!afterResponse) return response;
+
+		const replay = async () => {
+			const next = await prepare();
+			return send(next.url, next.init, signal);
+		};
+		return (await afterResponse({ ...context, response, replay })) ?? response;
+	};
+
+	// Without interceptors the request is passed straight to fetch
+	const request = (signal: AbortSignal) =>
+		beforeRequest || afterResponse
+			? intercept(signal)
+			: send(requestUrl.value, fetchOptions, signal);
+
+	const parse = (res: Response): Promise<T> => {
+		if (!res.ok) {
+			return HttpError.fromResponse(res).then((e) => Promise.reject(e));
+		}
+		if (responseType === "stream") {
+			return Promise.resolve(res.body as T);
+		}
+		return res[responseType]();
+	};
+
+	const fail = (e: any) => {
+		if (e?.name !== "AbortError") {
+			error.value = e;
+			onError?.(e);
+		}
+		isFetching.value = false;
+	};
+
+	let release: (() => void) | undefined;
+	let run = 0;
 
 	const abort = () => {
-		if (controller) {
-			controller.abort();
+		if (release) {
+			release();
+			release = undefined;
+			run++;
 			aborted.value = true;
+			isFetching.value = false;
 		}
 	};
 
+	/**
+	 * Always requests, sharing a request already in flight for the key.
+	 * The outcome is reported back through `onCacheEvent`.
+	 */
 	const execute = async () => {
 		abort(); // Abort previous request
-		controller = new AbortController();
+		const current = ++run;
 		aborted.value = false;
 		isFetching.value = true;
 		error.value = null;
+		retryCount.value = 0;
 
+		const pending = cache.fetch(key.value, request, parse, retryPolicy);
+		release = pending.release;
 		try {
-			const res = await fetch(unref(url), {
-				...fetchOptions,
-				signal: controller.signal,
-			});
-
-			if (!res.ok) {
-				throw new Error(res.statusText);
-			}
-			data.value = await res.json();
-		} catch (e: any) {
-			if (e.name === "AbortError") {
-				// Fetch was aborted
-			} else {
-				error.value = e;
-			}
-		} finally {
-			isFetching.value = false;
+			await pending.promise;
+		} catch {
+			// Reported through the cache
+		}
+		if (current === run) release = undefined;
+	};
+
+	const isStale = () => {
+		const entry = cache.get<T>(key.value);
+		return !entry || Date.now() - entry.updatedAt >= staleTime;
+	};
+
+	/**
+	 * Shows cached data right away and requests again when it is stale
+	 * (stale-while-revalidate).
+	 */
+	const revalidate = () => {
+		const entry = cache.get<T>(key.value);
+		if (entry) data.value = entry.data;
+		if (!cacheable || isStale()) execute();
+	};
+
+	const onCacheEvent = (event: CacheEvent) => {
+		if (event.type === "update") {
+			data.value = event.entry.data as T;
+			// A mutate() during a request doesn't end it
+			if (!cache.isPending(key.value)) isFetching.value = false;
+		} else if (event.type === "error") {
+			if (isFetching.value) fail(event.error);
+		} else if (event.type === "retry") {
+			retryCount.value = event.attempt;
+		} else if (event.type === "invalidate") {
+			execute();
 		}
 	};
 
-	if (isRef(url)) {
-		watch(url, execute, { immediate });
+	let unsubscribe: (() => void) | undefined;
+
+	const stopKeyWatch = watch(
+		key,
+		(newKey) => {
+			unsubscribe?.();
+			unsubscribe = cache.subscribe(newKey, onCacheEvent, cacheTime);
+		},
+		{ immediate: true },
+	);
+
+	let stopFetchWatch: (() => void) | undefined;
+	if (isRef(url) || isRef(params)) {
+		stopFetchWatch = watch(requestUrl, revalidate, { immediate });
 	} else if (immediate) {
-		execute();
+		revalidate();
+	}
+
+	const onFocus = () => {
+		if (!isFetching.value && isStale()) execute();
+	};
+
+	// Writes and streams are never sent again on their own
+	if (revalidateOnFocus && cacheable && typeof window !== "undefined") {
+		window.addEventListener("focus", onFocus);
+	}
+
+	let stopOnlineWatch: (() => void) | undefined;
+	if (revalidateOnReconnect && cacheable && getCurrentInstance()) {
+		const { isOnline } = useOnline();
+		stopOnlineWatch = watch(isOnline, (online) => {
+			if (online && !isFetching.value && isStale()) execute();
+		});
+	}
+
+	/** Updates the cached data for this key and every instance showing it */
+	const mutate = (value: T | ((current?: T) => T)) =>
+		cache.mutate(key.value, value);
+
+	/** Marks the data stale and refetches it in every instance showing it */
+	const invalidate = () => {
+		cache.invalidate(key.value);
+	};
+
+	const stop = () => {
+		abort();
+		unsubscribe?.();
+		stopKeyWatch();
+		stopFetchWatch?.();
+		stopOnlineWatch?.();
+		if (typeof window !== "undefined") {
+			window.removeEventListener("focus", onFocus);
+		}
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
 	}
 
-	return { data, error, isFetching, aborted, abort, execute };
+	return {
+		data,
+		error,
+		isFetching,
+		aborted,
+		retryCount,
+		key,
+		abort,
+		execute,
+		mutate,
+		invalidate,
+		stop,
+	};
 }
@@ -0,0 +1,180 @@
+import { mount } from "@vue/test-utils";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { defineComponent, nextTick, ref } from "vue";
+import { type CacheEvent, createFetchCache } from "./fetchCache";
+import { useMutation } from "./useMutation";
+
+interface Booking {
+	id: number;
+	room: string;
+}
+
+const setOnline = (value: boolean) => {
+	// Writable in the test setup
+	Object.assign(navigator, { onLine: value });
+	window.dispatchEvent(new Event(value ? "online" : "offline"));
+};
+
+describe("useMutation", () => {
+	afterEach(() => {
+		setOnline(true);
+	});
+
+	it("should expose data and pending state", async () => {
+		const { data, error, isPending, mutate, reset } = useMutation(
+			async (room: string) => ({ id: 1, room }),
+		);
+
+		const pending = mutate("A1");
+		expect(isPending.value).toBe(true);
+
+		expect(await pending).toEqual({ id: 1, room: "A1" });
+		expect(isPending.value).toBe(false);
+		expect(data.value).toEqual({ id: 1, room: "A1" });
+		expect(error.value).toBeNull();
+
+		reset();
+		expect(data.value).toBeNull();
+	});
+
+	it("should call the lifecycle callbacks in order", async () => {
+		const calls: string[] = [];
+		const { mutate } = useMutation(async (room: string) => room, {
+			onMutate: (room) => {
+				calls.push(`mutate:${room}`);
+				return { startedAt: 1 };
+			},
+			onSuccess: (data, _room, context) => {
+				calls.push(`success:${data}:${context?.startedAt}`);
+			},
+			onSettled: (_data, error) => {
+				calls.push(`settled:${error}`);
+			},
+		});
+
+		await mutate("B2");
+		expect(calls).toEqual(["mutate:B2", "success:B2:1", "settled:null"]);
+	});
+
+	it("should roll back optimistic updates when it fails", async () => {
+		const cache = createFetchCache(new Map());
+		cache.set("/bookings", [{ id: 1, room: "A1" }]);
+		const selected = ref<number | null>(1);
+		const onError = vi.fn<(error: Error) => void>();
+
+		const { error, mutateAsync } = useMutation(
+			async (_id: number): Promise<void> => {
+				expect(cache.get("/bookings")?.data).toEqual([]);
+				expect(selected.value).toBeNull();
+				throw new Error("Booking is checked in");
+			},
+			{
+				sharedCache: cache,
+				optimistic: [
+					{
+						key: "/bookings",
+						update: (bookings: Booking[], id) =>
+							bookings.filter((booking) => booking.id !== id),
+					},
+					{ state: selected, update: () => null },
+				],
+				onError,
+			},
+		);
+
+		await expect(mutateAsync(1)).rejects.toThrow("Booking is checked in");
+		expect(cache.get("/bookings")?.data).toEqual([{ id: 1, room: "A1" }]);
+		expect(selected.value).toBe(1);
+		expect(error.value?.message).toBe("Booking is checked in");
+		expect(onError).toHaveBeenCalledOnce();
+	});
+
+	it("should report onMutate and update failures", async () => {
+		const selected = ref<number | null>(1);
+		const mutationFn = vi.fn(async (id: number) => id);
+		const onError = vi.fn<(error: Error) => void>();
+		const onSettled = vi.fn();
+
+		const { error, isPending, mutate, mutateAsync } = useMutation(mutationFn, {
+			onMutate: async (id) => {
+				if (id === 0) throw new Error("No booking");
+			},
+			optimistic: [
+				{ state: selected, update: () => null },
+				{
+					state: ref(null),
+					update: () => {
+						throw new Error("Bad update");
+					},
+				},
+			],
+			onError,
+			onSettled,
+		});
+
+		await expect(mutateAsync(0)).rejects.toThrow("No booking");
+		expect(error.value?.message).toBe("No booking");
+		expect(isPending.value).toBe(false);
+
+		expect(await mutate(1)).toBeUndefined();
+		expect(selected.value).toBe(1);
+		expect(error.value?.message).toBe("Bad update");
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onSettled).toHaveBeenCalledTimes(2);
+		expect(mutationFn).not.toHaveBeenCalled();
+	});
+
+	it("should invalidate related cache keys on success", async () => {
+		const cache = createFetchCache(new Map());
+		const listener = vi.fn<(event: CacheEvent) => void>();
+		cache.subscribe("/bookings/7", listener, Infinity);
+		cache.subscribe("/rooms", listener, Infinity);
+
+		const { mutate } = useMutation(async (id: number) => ({ id }), {
+			sharedCache: cache,
+			invalidate: (data) => [`/bookings/${data.id}`],
+		});
+
+		await mutate(7);
+		expect(listener).toHaveBeenCalledOnce();
+		expect(listener).toHaveBeenCalledWith({ type: "invalidate" });
+	});
+
+	it("should queue while offline and replay in order", async () => {
+		const sent: string[] = [];
+		let mutation!: ReturnType<typeof useMutation<string, string>>;
+		const wrapper = mount(
+			defineComponent({
+				template: "<div></div>",
+				setup() {
+					mutation = useMutation(
+						async (note: string) => {
+							sent.push(note);
+							return note;
+						},
+						{ queueWhileOffline: true },
+					);
+				},
+			}),
+		);
+
+		setOnline(false);
+		await nextTick();
+		const first = mutation.mutateAsync("Late check-in");
+		const second = mutation.mutateAsync("Extra towels");
+		await vi.waitFor(() => expect(mutation.queueLength.value).toBe(2));
+		expect(sent).toEqual([]);
+		expect(mutation.isPending.value).toBe(false);
+
+		// A flush that sends nothing must not block the next one
+		await mutation.flush();
+		expect(mutation.queueLength.value).toBe(2);
+
+		setOnline(true);
+		expect(await first).toBe("Late check-in");
+		expect(await second).toBe("Extra towels");
+		expect(sent).toEqual(["Late check-in", "Extra towels"]);
+		expect(mutation.queueLength.value).toBe(0);
+		wrapper.unmount();
+	});
+});
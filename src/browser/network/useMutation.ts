@@ -0,0 +1,290 @@
+import {
+	computed,
+	getCurrentInstance,
+	onUnmounted,
+	type Ref,
+	ref,
+	watch,
+} from "vue";
+import {
+	type CacheEntry,
+	type CacheKeyFilter,
+	type FetchCache,
+	fetchCache,
+} from "./fetchCache";
+import { useOnline } from "./useOnline";
+
+/** A change shown before the server confirms it, either cached or a ref */
+export type OptimisticUpdate<V> =
+	| {
+			key: string | ((variables: V) => string);
+			update: (current: any, variables: V) => unknown;
+	  }
+	| {
+			state: Ref<any>;
+			update: (current: any, variables: V) => unknown;
+	  };
+
+export interface UseMutationOptions<TData, TVariables, TContext = unknown> {
+	/** Runs first; whatever it returns is passed to the other callbacks */
+	onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+	onSuccess?: (
+		data: TData,
+		variables: TVariables,
+		context: TContext | undefined,
+	) => unknown;
+	onError?: (
+		error: Error,
+		variables: TVariables,
+		context: TContext | undefined,
+	) => unknown;
+	onSettled?: (
+		data: TData | undefined,
+		error: Error | null,
+		variables: TVariables,
+		context: TContext | undefined,
+	) => unknown;
+	/** Applied before the request and rolled back if it fails */
+	optimistic?: OptimisticUpdate<TVariables>[];
+	/** Fetch cache keys to refetch once the mutation succeeds */
+	invalidate?:
+		| CacheKeyFilter[]
+		| ((data: TData, variables: TVariables) => CacheKeyFilter[]);
+	/** Defaults to the shared `fetchCache` */
+	sharedCache?: FetchCache;
+	/** Holds mutations made while offline and sends them once back online */
+	queueWhileOffline?: boolean;
+}
+
+interface Prepared<TVariables, TContext> {
+	variables: TVariables;
+	context: TContext | undefined;
+	rollback: () => void;
+}
+
+interface QueuedMutation<TData, TVariables, TContext>
+	extends Prepared<TVariables, TContext> {
+	resolve: (data: TData) => void;
+	reject: (error: Error) => void;
+}
+
+const toError = (e: unknown) => (e instanceof Error ? e : new Error(String(e)));
+
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+	mutationFn: (variables: TVariables) => Promise<TData>,
+	options: UseMutationOptions<TData, TVariables, TContext> = {},
+) {
+	const {
+		onMutate,
+		onSuccess,
+		onError,
+		onSettled,
+		optimistic = [],
+		invalidate,
+		sharedCache: cache = fetchCache,
+		queueWhileOffline = false,
+	} = options;
+
+	const data = ref<TData | null>(null) as Ref<TData | null>;
+	const error = ref<Error | null>(null);
+	const pending = ref(0);
+	const queue = ref([]) as Ref<QueuedMutation<TData, TVariables, TContext>[]>;
+
+	const isPending = computed(() => pending.value > 0);
+	const queueLength = computed(() => queue.value.length);
+
+	const applyUpdate = (
+		item: OptimisticUpdate<TVariables>,
+		variables: TVariables,
+	) => {
+		if ("state" in item) {
+			const previous = item.state.value;
+			item.state.value = item.update(previous, variables);
+			return () => {
+				item.state.value = previous;
+			};
+		}
+
+		const key = typeof item.key === "function" ? item.key(variables) : item.key;
+		const previous = cache.get(key) as CacheEntry | undefined;
+		cache.mutate(key, item.update(previous?.data, variables));
+		return () => cache.restore(key, previous);
+	};
+
+	// Snapshots what each update touches, so a failure can put it back
+	const applyOptimistic = (variables: TVariables) => {
+		const undo: (() => void)[] = [];
+		const rollback = () => {
+			undo.reverse().forEach((restore) => {
+				restore();
+			});
+		};
+
+		try {
+			optimistic.forEach((item) => {
+				undo.push(applyUpdate(item, variables));
+			});
+		} catch (e) {
+			rollback(); // Updates applied before the one that threw
+			throw e;
+		}
+		return rollback;
+	};
+
+	let run = 0;
+
+	const fail = async (
+		err: Error,
+		variables: TVariables,
+		context: TContext | undefined,
+		current: number,
+	): Promise<never> => {
+		if (current === run) error.value = err;
+
+		await onError?.(err, variables, context);
+		await onSettled?.(undefined, err, variables, context);
+		throw err;
+	};
+
+	// A failing onMutate or update is reported like a failed request
+	const prepare = async (
+		variables: TVariables,
+	): Promise<Prepared<TVariables, TContext>> => {
+		let context: TContext | undefined;
+		try {
+			context = await onMutate?.(variables);
+			const rollback = applyOptimistic(variables);
+			return { variables, context, rollback };
+		} catch (e) {
+			return fail(toError(e), variables, context, ++run);
+		}
+	};
+
+	const send = async ({
+		variables,
+		context,
+		rollback,
+	}: Prepared<TVariables, TContext>) => {
+		const current = ++run;
+
+		let result: TData;
+		try {
+			result = await mutationFn(variables);
+		} catch (e) {
+			rollback();
+			return fail(toError(e), variables, context, current);
+		}
+
+		if (current === run) {
+			data.value = result;
+			error.value = null;
+		}
+
+		const keys =
+			typeof invalidate === "function"
+				? invalidate(result, variables)
+				: (invalidate ?? []);
+		keys.forEach((key) => {
+			cache.invalidate(key);
+		});
+
+		await onSuccess?.(result, variables, context);
+		await onSettled?.(result, null, variables, context);
+		return result;
+	};
+
+	// Online state; `useOnline` needs a component, so fall back to navigator
+	const online = getCurrentInstance() ? useOnline().isOnline : null;
+	const isOnline = () => (online ? online.value : navigator.onLine);
+
+	let flushing: Promise<void> | null = null;
+
+	const drain = async () => {
+		while (queue.value.length > 0 && isOnline()) {
+			const [next, ...rest] = queue.value;
+			queue.value = rest;
+			pending.value++;
+			try {
+				next!.resolve(await send(next!));
+			} catch (e) {
+				next!.reject(toError(e));
+			} finally {
+				pending.value--;
+			}
+		}
+	};
+
+	/** Sends queued mutations one at a time, in the order they were made */
+	const flush = () => {
+		flushing ??= drain().finally(() => {
+			flushing = null;
+		});
+		return flushing;
+	};
+
+	/** Rejects with the error, unlike `mutate` */
+	const mutateAsync = async (variables: TVariables) => {
+		pending.value++;
+		try {
+			const prepared = await prepare(variables);
+
+			// Not awaited: queued mutations aren't pending until they're sent
+			if (queueWhileOffline && !isOnline()) {
+				return new Promise<TData>((resolve, reject) => {
+					queue.value = [...queue.value, { ...prepared, resolve, reject }];
+				});
+			}
+			return await send(prepared);
+		} finally {
+			pending.value--;
+		}
+	};
+
+	/** Resolves with the data, or undefined when it failed */
+	const mutate = (variables: TVariables) =>
+		mutateAsync(variables).catch(() => undefined);
+
+	const reset = () => {
+		run++;
+		data.value = null;
+		error.value = null;
+	};
+
+	let stopOnlineWatch: (() => void) | undefined;
+	const onOnline = () => {
+		flush();
+	};
+
+	if (queueWhileOffline) {
+		if (online) {
+			stopOnlineWatch = watch(online, (value) => {
+				if (value) flush();
+			});
+		} else if (typeof window !== "undefined") {
+			window.addEventListener("online", onOnline);
+		}
+	}
+
+	const stop = () => {
+		stopOnlineWatch?.();
+		if (typeof window !== "undefined") {
+			window.removeEventListener("online", onOnline);
+		}
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
+	return {
+		data,
+		error,
+		isPending,
+		queueLength,
+		mutate,
+		mutateAsync,
+		flush,
+		reset,
+		stop,
+	};
+}
@@ -0,0 +1,256 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { HttpError } from "./httpError";
+import {
+	type QueueEntry,
+	type QueueStore,
+	useOfflineQueue,
+} from "./useOfflineQueue";
+
+const createStore = (initial: QueueEntry[] = []) => {
+	const records = new Map(initial.map((entry) => [entry.id, entry]));
+	const store: QueueStore = {
+		getAll: async () => [...records.values()],
+		put: async (entry) => records.set(entry.id, entry),
+		remove: async (id) => records.delete(id),
+	};
+	return { records, store };
+};
+
+const conflict = () =>
+	new HttpError({ status: 409, statusText: "Conflict", url: "/notes" }, null);
+
+describe("useOfflineQueue", () => {
+	const queues: { stop: () => void }[] = [];
+	const track = <Q extends { stop: () => void }>(queue: Q) => {
+		queues.push(queue);
+		return queue;
+	};
+
+	afterEach(() => {
+		queues.splice(0).forEach((queue) => {
+			queue.stop();
+		});
+	});
+
+	it("should store actions offline and replay them in order", async () => {
+		const online = ref(false);
+		const sent: string[] = [];
+		const { records, store } = createStore();
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store,
+				online,
+				handlers: {
+					checkIn: async (payload: { room: string }) => {
+						sent.push(`check-in ${payload.room}`);
+					},
+					note: async (payload: { text: string }) => {
+						sent.push(`note ${payload.text}`);
+					},
+				},
+			}),
+		);
+
+		await queue.enqueue("checkIn", { room: "A1" });
+		await queue.enqueue("note", { text: "Late arrival" });
+
+		expect(queue.queueLength.value).toBe(2);
+		expect(queue.status.value).toBe("offline");
+		expect(records.size).toBe(2);
+		expect(sent).toEqual([]);
+
+		online.value = true;
+		await vi.waitFor(() => expect(queue.status.value).toBe("idle"));
+
+		expect(sent).toEqual(["check-in A1", "note Late arrival"]);
+		expect(queue.queueLength.value).toBe(0);
+		expect(records.size).toBe(0);
+		expect(queue.lastSyncedAt.value).not.toBeNull();
+	});
+
+	it("should pick up entries stored by an earlier session", async () => {
+		const handler = vi.fn(async (_payload: string) => {});
+		const { store } = createStore([
+			{
+				id: "b",
+				type: "note",
+				payload: "second",
+				seq: 2,
+				createdAt: 0,
+				attempts: 0,
+				lastError: null,
+				state: "pending",
+			},
+			{
+				id: "a",
+				type: "note",
+				payload: "first",
+				seq: 1,
+				createdAt: 0,
+				attempts: 0,
+				lastError: null,
+				state: "pending",
+			},
+		]);
+
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store,
+				online: ref(true),
+				handlers: { note: handler },
+			}),
+		);
+		await queue.ready;
+		await vi.waitFor(() => expect(queue.queueLength.value).toBe(0));
+
+		expect(handler.mock.calls.map(([payload]) => payload)).toEqual([
+			"first",
+			"second",
+		]);
+	});
+
+	it("should hold later entries back while one keeps failing", async () => {
+		const online = ref(false);
+		const sent: string[] = [];
+		const onDeadLetter = vi.fn<(entry: QueueEntry) => void>();
+		let failures = 2;
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store: createStore().store,
+				online,
+				maxAttempts: 2,
+				onDeadLetter,
+				handlers: {
+					note: async (text: string) => {
+						if (text === "flaky" && failures-- > 0) {
+							throw new TypeError("Failed to fetch");
+						}
+						sent.push(text);
+					},
+				},
+			}),
+		);
+		await queue.enqueue("note", "flaky");
+		await queue.enqueue("note", "after");
+
+		online.value = true;
+		await vi.waitFor(() => expect(queue.status.value).toBe("error"));
+		expect(sent).toEqual([]);
+		expect(queue.entries.value[0]?.attempts).toBe(1);
+
+		await queue.sync();
+		expect(onDeadLetter).toHaveBeenCalledWith(
+			expect.objectContaining({ payload: "flaky", attempts: 2 }),
+		);
+		expect(queue.deadLetters.value).toHaveLength(1);
+		expect(sent).toEqual(["after"]);
+
+		await queue.retryDeadLetter(queue.deadLetters.value[0]!.id);
+		expect(sent).toEqual(["after", "flaky"]);
+		expect(queue.deadLetters.value).toHaveLength(0);
+	});
+
+	it("should retry on its own after a transient failure", async () => {
+		let failures = 1;
+		const handler = vi.fn(async (_text: string) => {
+			if (failures-- > 0) throw new TypeError("Failed to fetch");
+		});
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store: createStore().store,
+				online: ref(true),
+				retry: { delay: 10, jitter: false },
+				handlers: { note: handler },
+			}),
+		);
+
+		await queue.enqueue("note", "Late arrival");
+		await vi.waitFor(() => expect(queue.queueLength.value).toBe(0));
+
+		expect(handler).toHaveBeenCalledTimes(2);
+		expect(queue.status.value).toBe("idle");
+		expect(queue.deadLetters.value).toHaveLength(0);
+	});
+
+	it("should dead-letter client errors straight away", async () => {
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store: createStore().store,
+				online: ref(true),
+				handlers: {
+					note: async () => {
+						throw new HttpError(
+							{ status: 422, statusText: "", url: "/notes" },
+							{ text: "Too long" },
+						);
+					},
+				},
+			}),
+		);
+
+		await queue.enqueue("note", "A very long note");
+		await vi.waitFor(() => expect(queue.deadLetters.value).toHaveLength(1));
+		expect(queue.deadLetters.value[0]?.attempts).toBe(1);
+		expect(queue.queueLength.value).toBe(0);
+	});
+
+	it("should let onConflict resend with a merged payload", async () => {
+		const handler = vi.fn(async (payload: { version: number }) => {
+			if (payload.version < 2) throw conflict();
+		});
+		const onConflict = vi.fn(async (entry: QueueEntry) => ({
+			payload: { ...(entry.payload as object), version: 2 },
+		}));
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store: createStore().store,
+				online: ref(true),
+				onConflict,
+				handlers: { note: handler },
+			}),
+		);
+
+		await queue.enqueue("note", { text: "Quiet room", version: 1 });
+		await vi.waitFor(() => expect(queue.queueLength.value).toBe(0));
+
+		expect(onConflict).toHaveBeenCalledOnce();
+		expect(handler).toHaveBeenLastCalledWith(
+			{ text: "Quiet room", version: 2 },
+			expect.objectContaining({ attempts: 1 }),
+		);
+		expect(queue.deadLetters.value).toHaveLength(0);
+	});
+
+	it("should discard or keep conflicting entries as told", async () => {
+		const online = ref(true);
+		const queue = track(
+			useOfflineQueue({
+				name: "desk",
+				store: createStore().store,
+				online,
+				onConflict: (entry) =>
+					entry.payload === "stale" ? "discard" : "retry",
+				handlers: {
+					note: async () => {
+						throw conflict();
+					},
+				},
+			}),
+		);
+
+		await queue.enqueue("note", "stale");
+		await vi.waitFor(() => expect(queue.queueLength.value).toBe(0));
+
+		await queue.enqueue("note", "keep");
+		await vi.waitFor(() => expect(queue.status.value).toBe("error"));
+		expect(queue.queueLength.value).toBe(1);
+		expect(queue.deadLetters.value).toHaveLength(0);
+	});
+});
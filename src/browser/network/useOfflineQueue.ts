@@ -0,0 +1,390 @@
+import {
+	computed,
+	getCurrentInstance,
+	onUnmounted,
+	type Ref,
+	ref,
+	watch,
+} from "vue";
+import { useIndexedDB } from "../storage/storage/useIndexedDB";
+import { isHttpError } from "./httpError";
+import { createRetryPolicy, type RetryOptions } from "./retry";
+import { useOnline } from "./useOnline";
+
+export interface QueueEntry<P = unknown> {
+	id: string;
+	/** Picks the handler that sends it */
+	type: string;
+	payload: P;
+	/** Replay order */
+	seq: number;
+	/** Epoch milliseconds */
+	createdAt: number;
+	attempts: number;
+	lastError: string | null;
+	/** Dead entries are kept for the user to retry or discard */
+	state: "pending" | "dead";
+}
+
+/** Where entries are kept; IndexedDB unless given another one */
+export interface QueueStore {
+	getAll: () => Promise<QueueEntry[]>;
+	put: (entry: QueueEntry) => Promise<unknown>;
+	remove: (id: string) => Promise<unknown>;
+}
+
+/**
+ * What to do with an entry the server rejected as conflicting: try it on
+ * the next sync, drop it, dead-letter it, or send it again right away with
+ * a new payload, e.g. merged with the server's version.
+ */
+export type ConflictResolution<P = any> =
+	| "retry"
+	| "discard"
+	| "dead-letter"
+	| { payload: P };
+
+export type QueueStatus = "idle" | "syncing" | "offline" | "error";
+
+export interface UseOfflineQueueOptions {
+	/** Entries are stored in the `offline-queue:<name>` database */
+	name: string;
+	handlers: Record<string, (payload: any, entry: QueueEntry) => unknown>;
+	/** Failed attempts before an entry is dead-lettered */
+	maxAttempts?: number;
+	/** Defaults to 409 and 412 responses */
+	isConflict?: (error: unknown) => boolean;
+	onConflict?: (
+		entry: QueueEntry,
+		error: unknown,
+	) => ConflictResolution | Promise<ConflictResolution>;
+	onDeadLetter?: (entry: QueueEntry) => void;
+	/**
+	 * Backoff before a held-back entry is sent again while online, or false
+	 * to wait for the next sync. `Retry-After` responses are respected.
+	 */
+	retry?: Pick<RetryOptions, "delay" | "maxDelay" | "jitter"> | false;
+	/** Connectivity to follow, e.g. `useConnection().online` */
+	online?: Ref<boolean>;
+	store?: QueueStore;
+}
+
+interface Failure {
+	error: unknown;
+	attempts: number;
+}
+
+const CLIENT_RETRY_STATUSES = [408, 425, 429];
+
+const isConflictResponse = (error: unknown) =>
+	isHttpError(error) && (error.status === 409 || error.status === 412);
+
+// Client errors won't succeed however often they're sent
+const isPermanent = (error: unknown) =>
+	isHttpError(error) &&
+	error.status >= 400 &&
+	error.status < 500 &&
+	!CLIENT_RETRY_STATUSES.includes(error.status);
+
+const errorMessage = (error: unknown) =>
+	error instanceof Error ? error.message : String(error);
+
+const createIndexedDBStore = (name: string): QueueStore => {
+	const db = useIndexedDB<QueueEntry>({
+		dbName: `offline-queue:${name}`,
+		storeName: "entries",
+		keyPath: "id",
+	});
+	return { getAll: db.getAll, put: db.update, remove: db.remove };
+};
+
+let lastId = 0;
+const createId = () =>
+	`${Date.now().toString(36)}-${(++lastId).toString(36)}`;
+
+/**
+ * A durable outbox: actions are stored first and sent in order once there
+ * is a connection, surviving reloads in between.
+ */
+export function useOfflineQueue(options: UseOfflineQueueOptions) {
+	const {
+		name,
+		handlers,
+		maxAttempts = 5,
+		isConflict = isConflictResponse,
+		onConflict,
+		onDeadLetter,
+		retry = {},
+	} = options;
+	const store = options.store ?? createIndexedDBStore(name);
+
+	// `maxAttempts` decides when an entry stops being retried
+	const retryPolicy =
+		retry === false
+			? undefined
+			: createRetryPolicy({
+					...retry,
+					retries: Infinity,
+					shouldRetry: () => true,
+				});
+
+	const entries = ref<QueueEntry[]>([]);
+	const status = ref<QueueStatus>("idle");
+	const error = ref<Error | null>(null);
+	const lastSyncedAt = ref<number | null>(null);
+
+	const pending = computed(() =>
+		entries.value
+			.filter((entry) => entry.state === "pending")
+			.sort((a, b) => a.seq - b.seq),
+	);
+	const deadLetters = computed(() =>
+		entries.value.filter((entry) => entry.state === "dead"),
+	);
+	const queueLength = computed(() => pending.value.length);
+	const isSyncing = computed(() => status.value === "syncing");
+
+	// `useOnline` needs a component, so fall back to navigator
+	const online =
+		options.online ?? (getCurrentInstance() ? useOnline().isOnline : null);
+	const isOnline = () => (online ? online.value : navigator.onLine);
+
+	const handleError = (e: unknown) => {
+		error.value = e instanceof Error ? e : new Error(String(e));
+	};
+
+	const save = async (entry: QueueEntry) => {
+		await store.put(entry);
+		entries.value = [
+			...entries.value.filter((item) => item.id !== entry.id),
+			entry,
+		];
+	};
+
+	const drop = async (id: string) => {
+		await store.remove(id);
+		entries.value = entries.value.filter((item) => item.id !== id);
+	};
+
+	const deadLetter = async (entry: QueueEntry) => {
+		const dead = { ...entry, state: "dead" as const };
+		await save(dead);
+		onDeadLetter?.(dead);
+	};
+
+	/** Sends one entry; resolves with the failure that holds the queue back */
+	const replay = async (entry: QueueEntry): Promise<Failure | null> => {
+		const handler = handlers[entry.type];
+		if (!handler) {
+			await deadLetter({
+				...entry,
+				lastError: `No handler for "${entry.type}"`,
+			});
+			return null;
+		}
+
+		try {
+			await handler(entry.payload, entry);
+			await drop(entry.id);
+			return null;
+		} catch (e) {
+			const failed = {
+				...entry,
+				attempts: entry.attempts + 1,
+				lastError: errorMessage(e),
+			};
+
+			const resolve = onConflict && isConflict(e) ? onConflict : null;
+			if (resolve) {
+				const resolution = await resolve(failed, e);
+				if (resolution === "discard") {
+					await drop(entry.id);
+					return null;
+				}
+				if (resolution === "dead-letter") {
+					await deadLetter(failed);
+					return null;
+				}
+				if (typeof resolution === "object") {
+					const resolved = { ...failed, payload: resolution.payload };
+					if (failed.attempts >= maxAttempts) {
+						await deadLetter(resolved);
+						return null;
+					}
+					return replay(resolved);
+				}
+			}
+
+			// A conflict left for "retry" gets the usual attempts
+			if ((!resolve && isPermanent(e)) || failed.attempts >= maxAttempts) {
+				await deadLetter(failed);
+				return null;
+			}
+
+			// Later entries wait, as they may depend on this one
+			await save(failed);
+			return { error: e, attempts: failed.attempts };
+		}
+	};
+
+	let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const cancelRetry = () => {
+		clearTimeout(retryTimer);
+		retryTimer = undefined;
+	};
+
+	const scheduleRetry = ({ error: cause, attempts }: Failure) => {
+		const delay = retryPolicy?.(cause, attempts);
+		if (delay === undefined || delay === false) return;
+		cancelRetry();
+		retryTimer = setTimeout(() => {
+			retryTimer = undefined;
+			trySync();
+		}, delay);
+	};
+
+	const drain = async () => {
+		status.value = "syncing";
+		try {
+			// Entries added meanwhile are picked up too
+			let entry = pending.value[0];
+			while (entry) {
+				if (!isOnline()) {
+					status.value = "offline";
+					return;
+				}
+				const failure = await replay(entry);
+				if (failure) {
+					status.value = "error";
+					scheduleRetry(failure);
+					return;
+				}
+				entry = pending.value[0];
+			}
+			status.value = "idle";
+			lastSyncedAt.value = Date.now();
+		} catch (e) {
+			handleError(e);
+			status.value = "error";
+		}
+	};
+
+	let syncing: Promise<void> | null = null;
+
+	/** Replays pending entries in order until one fails or we go offline */
+	const sync = () => {
+		syncing ??= drain().finally(() => {
+			syncing = null;
+		});
+		return syncing;
+	};
+
+	const trySync = () => {
+		if (!isOnline()) {
+			if (queueLength.value > 0) status.value = "offline";
+			return Promise.resolve();
+		}
+		return sync();
+	};
+
+	const nextSeq = () =>
+		entries.value.reduce((max, item) => Math.max(max, item.seq), 0) + 1;
+
+	const ready = (async () => {
+		try {
+			entries.value = await store.getAll();
+		} catch (e) {
+			handleError(e);
+		}
+	})();
+
+	/** Stores an action and sends it as soon as possible */
+	const enqueue = async <P>(type: string, payload: P) => {
+		await ready;
+		const entry: QueueEntry<P> = {
+			id: createId(),
+			type,
+			// Only what survives serialization is stored
+			payload: JSON.parse(JSON.stringify(payload)),
+			seq: nextSeq(),
+			createdAt: Date.now(),
+			attempts: 0,
+			lastError: null,
+			state: "pending",
+		};
+		try {
+			await save(entry);
+		} catch (e) {
+			handleError(e);
+			throw e;
+		}
+		trySync();
+		return entry;
+	};
+
+	/** Moves a dead entry back to the end of the queue */
+	const retryDeadLetter = async (id: string) => {
+		const entry = deadLetters.value.find((item) => item.id === id);
+		if (!entry) return;
+
+		await save({ ...entry, state: "pending", attempts: 0, seq: nextSeq() });
+		await trySync();
+	};
+
+	const discard = (id: string) => drop(id);
+
+	const clear = async () => {
+		await Promise.all(entries.value.map((entry) => store.remove(entry.id)));
+		entries.value = [];
+		status.value = "idle";
+	};
+
+	ready.then(trySync);
+
+	let stopOnlineWatch: (() => void) | undefined;
+	const onOnline = () => {
+		trySync();
+	};
+
+	if (online) {
+		stopOnlineWatch = watch(online, (value) => {
+			if (value) {
+				trySync();
+			} else if (queueLength.value > 0) {
+				status.value = "offline";
+			}
+		});
+	} else if (typeof window !== "undefined") {
+		window.addEventListener("online", onOnline);
+	}
+
+	const stop = () => {
+		cancelRetry();
+		stopOnlineWatch?.();
+		if (typeof window !== "undefined") {
+			window.removeEventListener("online", onOnline);
+		}
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
+	return {
+		entries: pending,
+		deadLetters,
+		queueLength,
+		status,
+		isSyncing,
+		error,
+		lastSyncedAt,
+		ready,
+		enqueue,
+		sync,
+		retryDeadLetter,
+		discard,
+		clear,
+		stop,
+	};
+}
@@ -1,4 +1,4 @@
-import { computed, ref } from "vue";
+import { computed, getCurrentInstance, onUnmounted, ref } from "vue";
 
 export interface UseUrlOptions {
 	base?: string;
@@ -124,15 +124,25 @@ export function useUrl(options: UseUrlOptions = {}) {
 		}
 	};
 
+	const handlePopState = () => {
+		url.value = window.location.href;
+	};
+
 	// Listen for URL changes in browser
 	if (typeof window !== "undefined") {
-		const handlePopState = () => {
-			url.value = window.location.href;
-		};
-
 		window.addEventListener("popstate", handlePopState);
 	}
 
+	const stop = () => {
+		if (typeof window !== "undefined") {
+			window.removeEventListener("popstate", handlePopState);
+		}
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
 	return {
 		url,
 		protocol,
@@ -148,5 +158,6 @@ export function useUrl(options: UseUrlOptions = {}) {
 		getParam,
 		hasParam,
 		buildUrl,
+		stop,
 	};
 }
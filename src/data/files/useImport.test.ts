@@ -0,0 +1,244 @@
+import { describe, expect, it, vi } from "vitest";
+import { nextTick } from "vue";
+import { email, required } from "../../ui/validation/useValidationRules";
+import { parseCSV, useImport } from "./useImport";
+
+interface Guest {
+	name: string;
+	email: string;
+	age: number;
+}
+
+const columns = [
+	{ key: "name" as const, label: "Full Name", rules: [required()] },
+	{ key: "email" as const, aliases: ["E-mail"], rules: [email()] },
+	{ key: "age" as const, transform: Number },
+];
+
+describe("parseCSV", () => {
+	it("should parse quoted fields with delimiters, quotes and newlines", () => {
+		const text = 'a,b\r\n"x, y","say ""hi"""\n"multi\nline",2\n';
+		expect(parseCSV(text)).toEqual([
+			["a", "b"],
+			["x, y", 'say "hi"'],
+			["multi\nline", "2"],
+		]);
+	});
+
+	it("should strip the BOM and support custom delimiters", () => {
+		expect(parseCSV("\uFEFFa;b\n1;2", ";")).toEqual([
+			["a", "b"],
+			["1", "2"],
+		]);
+	});
+
+	it("should keep empty fields", () => {
+		expect(parseCSV("a,,c\n,,")).toEqual([
+			["a", "", "c"],
+			["", "", ""],
+		]);
+	});
+});
+
+describe("useImport", () => {
+	it("should auto-map headers by key, label and alias", async () => {
+		const { headers, mapping, importText } = useImport<Guest>({ columns });
+
+		await importText("full name,E-mail,AGE\nAda,ada@example.com,36", "csv");
+
+		expect(headers.value).toEqual(["full name", "E-mail", "AGE"]);
+		expect(mapping.value).toEqual({
+			name: "full name",
+			email: "E-mail",
+			age: "AGE",
+		});
+	});
+
+	it("should split valid and invalid rows with per-row errors", async () => {
+		const { rows, validRows, invalidRows, errors, importText } =
+			useImport<Guest>({ columns });
+
+		await importText(
+			[
+				"name,email,age",
+				"Ada,ada@example.com,36",
+				",grace@example.com,45",
+				"Linus,not-an-email,28",
+			].join("\n"),
+			"csv",
+		);
+
+		expect(rows.value).toHaveLength(3);
+		expect(validRows.value).toEqual([
+			{ name: "Ada", email: "ada@example.com", age: 36 },
+		]);
+		expect(invalidRows.value.map((row) => row.index)).toEqual([2, 3]);
+		expect(errors.value).toEqual([
+			{ row: 2, field: "name", message: "This field is required" },
+			{ row: 3, field: "email", message: "Invalid email address" },
+		]);
+	});
+
+	it("should import JSON arrays", async () => {
+		const { headers, validRows, importText } = useImport<Guest>({ columns });
+
+		await importText(
+			JSON.stringify([{ name: "Ada", email: "ada@example.com", age: "36" }]),
+			"json",
+		);
+
+		expect(headers.value).toEqual(["name", "email", "age"]);
+		expect(validRows.value).toEqual([
+			{ name: "Ada", email: "ada@example.com", age: 36 },
+		]);
+	});
+
+	it("should validate against the whole row", async () => {
+		const { errors, importText } = useImport<Guest>({
+			columns: [
+				{
+					key: "name",
+					rules: [
+						{
+							validate: (_value, context) =>
+								context?.values["age"] >= 18 || "Guests must be adults",
+						},
+					],
+				},
+				{ key: "email" },
+				{ key: "age", transform: Number },
+			],
+		});
+
+		await importText("name,email,age\nAda,,36\nTim,,12", "csv");
+
+		expect(errors.value).toEqual([
+			{ row: 2, field: "name", message: "Guests must be adults" },
+		]);
+	});
+
+	it("should set an error for malformed JSON", async () => {
+		const { error, rows, isLoading, importText } = useImport<Guest>({
+			columns,
+		});
+
+		await importText('{"name": "Ada"}', "json");
+
+		expect(error.value?.message).toBe(
+			"JSON import must be an array of objects",
+		);
+		expect(rows.value).toEqual([]);
+		expect(isLoading.value).toBe(false);
+	});
+
+	it("should re-validate when the mapping changes", async () => {
+		const { errors, validRows, setMapping, isLoading, importText } =
+			useImport<Guest>({ columns });
+
+		await importText("name,contact\nAda,ada@example.com", "csv");
+		expect(errors.value).toHaveLength(1);
+
+		setMapping("email", "contact");
+		await nextTick();
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(isLoading.value).toBe(false);
+		expect(errors.value).toEqual([]);
+		expect(validRows.value[0]?.email).toBe("ada@example.com");
+	});
+
+	it("should apply a mapping change made right after importing", async () => {
+		const { errors, setMapping, importText } = useImport<Guest>({ columns });
+
+		const pending = importText("name,contact\nAda,ada@example.com", "csv");
+		setMapping("email", "contact");
+		await pending;
+
+		await vi.waitFor(() => expect(errors.value).toEqual([]));
+	});
+
+	it("should set an error when a transform or rule fails", async () => {
+		const { error, isLoading, importText } = useImport<Guest>({
+			columns: [
+				{
+					key: "name",
+					rules: [
+						{
+							validate: async () => {
+								throw new Error("Lookup failed");
+							},
+						},
+					],
+				},
+				{
+					key: "age",
+					transform: (value) => {
+						if (value === "x") throw new Error("Not a number");
+						return Number(value);
+					},
+				},
+			],
+		});
+
+		await importText("name,age\nAda,x", "csv");
+		expect(error.value?.message).toBe("Not a number");
+		expect(isLoading.value).toBe(false);
+
+		await importText("name,age\nAda,36", "csv");
+		expect(error.value?.message).toBe("Lookup failed");
+		expect(isLoading.value).toBe(false);
+	});
+
+	it("should limit the preview and report progress in chunks", async () => {
+		const { preview, progress, rows, importText } = useImport<Guest>({
+			columns,
+			chunkSize: 2,
+			previewSize: 3,
+		});
+
+		const lines = Array.from(
+			{ length: 5 },
+			(_, i) => `Guest ${i},guest${i}@example.com,${20 + i}`,
+		);
+		const done = importText(["name,email,age", ...lines].join("\n"), "csv");
+
+		expect(progress.value).toBe(0.4);
+		await done;
+
+		expect(progress.value).toBe(1);
+		expect(rows.value).toHaveLength(5);
+		expect(preview.value.map((row) => row.name)).toEqual([
+			"Guest 0",
+			"Guest 1",
+			"Guest 2",
+		]);
+	});
+
+	it("should read files and detect the format from the extension", async () => {
+		const { validRows, isLoading, importFile } = useImport<Guest>({
+			columns,
+		});
+		const file = new File(
+			['[{"name":"Ada","email":"ada@example.com","age":36}]'],
+			"guests.json",
+		);
+
+		await importFile(file);
+
+		expect(isLoading.value).toBe(false);
+		expect(validRows.value).toHaveLength(1);
+	});
+
+	it("should reset all state", async () => {
+		const { headers, rows, progress, importText, reset } = useImport<Guest>({
+			columns,
+		});
+
+		await importText("name,email,age\nAda,ada@example.com,36", "csv");
+		reset();
+
+		expect(headers.value).toEqual([]);
+		expect(rows.value).toEqual([]);
+		expect(progress.value).toBe(0);
+	});
+});
@@ -0,0 +1,358 @@
+import { computed, type Ref, ref, shallowRef, watch } from "vue";
+import {
+	isPromise,
+	type RuleCheck,
+	runRules,
+} from "../../ui/validation/runRules";
+import type { FormValidationRule } from "../../ui/validation/types";
+import { useFileReader } from "./useFileReader";
+
+export type ImportFormat = "csv" | "json";
+
+export interface ImportColumn<T> {
+	key: keyof T & string;
+	label?: string;
+	/** Alternative source headers that map to this column automatically */
+	aliases?: string[];
+	rules?: FormValidationRule[];
+	transform?: (value: any) => any;
+}
+
+export interface UseImportOptions<T> {
+	columns: ImportColumn<T>[];
+	format?: ImportFormat | "auto";
+	delimiter?: string;
+	/** Rows mapped and validated between progress updates */
+	chunkSize?: number;
+	previewSize?: number;
+}
+
+export interface ImportRow<T> {
+	/** Position in the source file, starting at 1 for the first data row */
+	index: number;
+	data: T;
+	errors: Partial<Record<keyof T, string>>;
+	isValid: boolean;
+}
+
+export interface ImportError<T> {
+	row: number;
+	field: keyof T;
+	message: string;
+}
+
+/**
+ * Parses delimited text per RFC 4180: quoted fields may contain the
+ * delimiter, line breaks and doubled quotes.
+ */
+export function parseCSV(text: string, delimiter = ","): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+	const endField = () => {
+		row.push(field);
+		field = "";
+	};
+	const endRow = () => {
+		endField();
+		if (row.length > 1 || row[0] !== "") rows.push(row);
+		row = [];
+	};
+
+	for (; i < text.length; i++) {
+		const char = text[i]!;
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === "") {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			endField();
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) endRow();
+	return rows;
+}
+
+const normalizeHeader = (header: string) =>
+	header.trim().toLowerCase().replace(/[\s_-]+/g, "");
+
+const yieldToMain = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export function useImport<T extends Record<string, any>>(
+	options: UseImportOptions<T>,
+) {
+	const {
+		columns,
+		format = "auto",
+		delimiter = ",",
+		chunkSize = 500,
+		previewSize = 10,
+	} = options;
+
+	const reader = useFileReader();
+
+	const headers = ref<string[]>([]);
+	const sourceRows = shallowRef<Record<string, unknown>[]>([]);
+	const mapping = ref<Record<string, string | null>>({});
+	const rows = shallowRef<ImportRow<T>[]>([]) as Ref<ImportRow<T>[]>;
+	const progress = ref(0);
+	const isLoading = ref(false);
+	const error = ref<Error | null>(null);
+
+	const validRows = computed(() =>
+		rows.value.filter((row) => row.isValid).map((row) => row.data),
+	);
+	const invalidRows = computed(() =>
+		rows.value.filter((row) => !row.isValid),
+	);
+	const preview = computed(() => validRows.value.slice(0, previewSize));
+	const errors = computed<ImportError<T>[]>(() =>
+		invalidRows.value.flatMap((row) =>
+			Object.entries(row.errors).map(([field, message]) => ({
+				row: row.index,
+				field: field as keyof T,
+				message: message as string,
+			})),
+		),
+	);
+
+	// The mapping the current rows were validated with
+	let appliedMapping = "";
+
+	const autoMap = (sourceHeaders: string[]) => {
+		const lookup = new Map(
+			sourceHeaders.map((header) => [normalizeHeader(header), header]),
+		);
+		mapping.value = Object.fromEntries(
+			columns.map((column) => {
+				const match = [column.key, column.label, ...(column.aliases ?? [])]
+					.filter((name): name is string => !!name)
+					.map((name) => lookup.get(normalizeHeader(name)))
+					.find(Boolean);
+				return [column.key, match ?? null];
+			}),
+		);
+	};
+
+	const validateValue = (
+		column: ImportColumn<T>,
+		value: unknown,
+		data: T,
+	): RuleCheck =>
+		runRules(column.rules ?? [], value, {
+			values: data,
+			field: column.key,
+			signal: new AbortController().signal,
+		});
+
+	const validateRow = (source: Record<string, unknown>, index: number) => {
+		const data = {} as T;
+		const checks: [keyof T & string, RuleCheck][] = [];
+
+		columns.forEach((column) => {
+			const sourceColumn = mapping.value[column.key];
+			const raw = sourceColumn ? source[sourceColumn] : undefined;
+			const value = column.transform ? column.transform(raw) : raw;
+			data[column.key] = value as T[keyof T & string];
+		});
+
+		// Cross-field rules see the whole row, not just the columns before them
+		columns.forEach((column) => {
+			checks.push([column.key, validateValue(column, data[column.key], data)]);
+		});
+
+		const toRow = (messages: (string | null)[]): ImportRow<T> => {
+			const rowErrors: Partial<Record<keyof T, string>> = {};
+			messages.forEach((message, i) => {
+				if (message) rowErrors[checks[i]![0]] = message;
+			});
+			return {
+				index,
+				data,
+				errors: rowErrors,
+				isValid: Object.keys(rowErrors).length === 0,
+			};
+		};
+
+		// Only rows with async rules go through a promise
+		const results = checks.map(([, check]) => check);
+		return results.some(isPromise)
+			? Promise.all(results).then(toRow)
+			: toRow(results as (string | null)[]);
+	};
+
+	let run = 0;
+
+	// Maps and validates in chunks so large files don't block the UI
+	const process = async () => {
+		const current = ++run;
+		const source = sourceRows.value;
+		const result: ImportRow<T>[] = [];
+		appliedMapping = JSON.stringify(mapping.value);
+		isLoading.value = true;
+		error.value = null;
+		progress.value = 0;
+
+		try {
+			for (let start = 0; start < source.length; start += chunkSize) {
+				const end = Math.min(start + chunkSize, source.length);
+				for (let i = start; i < end; i++) {
+					const row = validateRow(source[i]!, i + 1);
+					result.push(isPromise<ImportRow<T>>(row) ? await row : row);
+				}
+				progress.value = end / source.length;
+				if (end < source.length) {
+					await yieldToMain();
+					if (current !== run) return; // Superseded by a newer run
+				}
+			}
+
+			// Async rules may have let a newer run start meanwhile
+			if (current !== run) return;
+			rows.value = result;
+			progress.value = 1;
+		} catch (e) {
+			// A throwing transform or rule, or a rejected async rule
+			if (current === run) {
+				error.value = e instanceof Error ? e : new Error(String(e));
+			}
+		} finally {
+			// A newer run owns the loading state
+			if (current === run) isLoading.value = false;
+		}
+	};
+
+	const parse = (text: string, sourceFormat: ImportFormat) => {
+		if (sourceFormat === "json") {
+			const parsed = JSON.parse(text);
+			if (!Array.isArray(parsed)) {
+				throw new Error("JSON import must be an array of objects");
+			}
+			const keys = new Set<string>();
+			parsed.forEach((item) => {
+				Object.keys(item ?? {}).forEach((key) => keys.add(key));
+			});
+			return { headers: [...keys], rows: parsed };
+		}
+
+		const [headerRow = [], ...dataRows] = parseCSV(text, delimiter);
+		return {
+			headers: headerRow,
+			rows: dataRows.map((values) =>
+				Object.fromEntries(
+					headerRow.map((header, i) => [header, values[i] ?? ""]),
+				),
+			),
+		};
+	};
+
+	const importText = async (text: string, sourceFormat: ImportFormat) => {
+		error.value = null;
+		try {
+			const parsed = parse(text, sourceFormat);
+			headers.value = parsed.headers;
+			sourceRows.value = parsed.rows;
+			autoMap(parsed.headers);
+		} catch (e) {
+			error.value = e instanceof Error ? e : new Error(String(e));
+			sourceRows.value = [];
+			rows.value = [];
+			isLoading.value = false;
+			return;
+		}
+		await process();
+	};
+
+	const readFile = (file: File) =>
+		new Promise<string>((resolve, reject) => {
+			const stop = watch(reader.isLoading, (loading) => {
+				if (loading) return;
+				stop();
+				if (reader.error.value) {
+					reject(reader.error.value);
+				} else {
+					resolve(String(reader.result.value ?? ""));
+				}
+			});
+			reader.read(file, "text");
+		});
+
+	const detectFormat = (file: File): ImportFormat => {
+		if (format !== "auto") return format;
+		return file.type.includes("json") || file.name.endsWith(".json")
+			? "json"
+			: "csv";
+	};
+
+	const importFile = async (file: File) => {
+		isLoading.value = true;
+		progress.value = 0;
+		try {
+			const text = await readFile(file);
+			await importText(text, detectFormat(file));
+		} catch (e) {
+			error.value = e instanceof Error ? e : new Error("Failed to read file");
+			isLoading.value = false;
+		}
+	};
+
+	const setMapping = (key: keyof T & string, sourceColumn: string | null) => {
+		mapping.value = { ...mapping.value, [key]: sourceColumn };
+	};
+
+	// Re-validate when the user changes the mapping after parsing
+	watch(
+		mapping,
+		() => {
+			// Mappings already applied, e.g. by autoMap, aren't validated again
+			if (JSON.stringify(mapping.value) === appliedMapping) return;
+			if (sourceRows.value.length > 0) process();
+		},
+		{ deep: true },
+	);
+
+	const reset = () => {
+		run++;
+		headers.value = [];
+		sourceRows.value = [];
+		mapping.value = {};
+		rows.value = [];
+		progress.value = 0;
+		isLoading.value = false;
+		error.value = null;
+	};
+
+	return {
+		headers,
+		mapping,
+		rows,
+		validRows,
+		invalidRows,
+		errors,
+		preview,
+		progress,
+		isLoading,
+		error,
+		importFile,
+		importText,
+		setMapping,
+		reset,
+	};
+}
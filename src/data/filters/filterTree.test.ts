@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+	and,
+	evaluateFilter,
+	type FilterNode,
+	not,
+	or,
+	parseFilter,
+	resolveDateRange,
+	serializeFilter,
+	where,
+} from "./filterTree";
+
+interface Booking {
+	id: number;
+	paid: boolean;
+	checkIn: string;
+	nights: number;
+	notes: string | null;
+	guest: { vip: boolean };
+}
+
+describe("filterTree", () => {
+	// Wednesday
+	const now = new Date(2024, 2, 13, 12);
+
+	const bookings: Booking[] = [
+		{
+			id: 1,
+			paid: false,
+			checkIn: new Date(2024, 2, 14).toISOString(),
+			nights: 2,
+			notes: null,
+			guest: { vip: false },
+		},
+		{
+			id: 2,
+			paid: true,
+			checkIn: new Date(2024, 2, 20).toISOString(),
+			nights: 5,
+			notes: "Late arrival",
+			guest: { vip: true },
+		},
+		{
+			id: 3,
+			paid: false,
+			checkIn: new Date(2024, 3, 2).toISOString(),
+			nights: 1,
+			notes: null,
+			guest: { vip: false },
+		},
+	];
+
+	const matching = (node: FilterNode<Booking>) =>
+		bookings
+			.filter((booking) => evaluateFilter(booking, node, { now }))
+			.map((booking) => booking.id);
+
+	it("should combine AND and OR groups", () => {
+		const view = or<Booking>(
+			and(
+				where("paid", "equals", false),
+				where("checkIn", "inDateRange", "thisWeek"),
+			),
+			where("guest.vip", "equals", true),
+		);
+
+		expect(matching(view)).toEqual([1, 2]);
+	});
+
+	it("should negate nodes", () => {
+		expect(matching(not(where("paid", "equals", true)))).toEqual([1, 3]);
+	});
+
+	it("should support between and null operators", () => {
+		expect(matching(where("nights", "between", [2, 5]))).toEqual([1, 2]);
+		expect(matching(where("notes", "isNull"))).toEqual([1, 3]);
+		expect(matching(where("notes", "isNotNull"))).toEqual([2]);
+	});
+
+	it("should support date operators", () => {
+		const from = new Date(2024, 2, 15).toISOString();
+		const to = new Date(2024, 3, 1).toISOString();
+
+		expect(matching(where("checkIn", "after", from))).toEqual([2, 3]);
+		expect(matching(where("checkIn", "before", from))).toEqual([1]);
+		expect(matching(where("checkIn", "dateBetween", [from, to]))).toEqual([2]);
+		expect(matching(where("checkIn", "inDateRange", { nextDays: 7 }))).toEqual(
+			[1, 2],
+		);
+	});
+
+	it("should treat empty groups as matching everything", () => {
+		expect(matching(and())).toEqual([1, 2, 3]);
+		expect(matching(or())).toEqual([1, 2, 3]);
+	});
+
+	it("should round-trip through JSON", () => {
+		const view = or<Booking>(
+			and(where("paid", "equals", false), where("nights", "gte", 2)),
+			not(where("guest.vip", "equals", false)),
+		);
+
+		const restored = parseFilter<Booking>(serializeFilter(view));
+		expect(restored).toEqual(view);
+		expect(matching(restored)).toEqual(matching(view));
+	});
+
+	it("should reject invalid trees", () => {
+		expect(() => parseFilter('{"type":"xor","children":[]}')).toThrow(
+			'unknown node type "xor"',
+		);
+		expect(() =>
+			parseFilter({ type: "condition", field: "a", operator: "like" }),
+		).toThrow('unknown operator "like"');
+		expect(() => parseFilter({ type: "and" })).toThrow("requires children");
+		expect(() =>
+			parseFilter(where("checkIn", "inDateRange", { lastDays: "7" })),
+		).toThrow("unknown date range");
+		expect(() =>
+			parseFilter(where("checkIn", "inDateRange", "nextWeek")),
+		).toThrow("unknown date range");
+	});
+
+	it("should resolve relative date ranges", () => {
+		const [start, end] = resolveDateRange("thisWeek", now);
+
+		expect(start).toEqual(new Date(2024, 2, 11));
+		expect(end).toEqual(new Date(2024, 2, 17, 23, 59, 59, 999));
+	});
+});
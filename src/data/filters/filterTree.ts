@@ -0,0 +1,310 @@
+import { getValueByPath } from "../tables/useSort";
+
+export type FilterOperator =
+	| "equals"
+	| "notEquals"
+	| "contains"
+	| "startsWith"
+	| "endsWith"
+	| "gt"
+	| "gte"
+	| "lt"
+	| "lte"
+	| "in"
+	| "nin"
+	| "between"
+	| "isNull"
+	| "isNotNull"
+	| "before"
+	| "after"
+	| "dateBetween"
+	| "inDateRange";
+
+/**
+ * Date range relative to the moment of evaluation, so saved views such as
+ * "arriving this week" stay correct over time.
+ */
+export type RelativeDateRange =
+	| "today"
+	| "thisWeek"
+	| "thisMonth"
+	| "thisYear"
+	| { lastDays: number }
+	| { nextDays: number };
+
+/** A column key or a dot path into nested values, e.g. `guest.vip`. */
+export type FilterField<T> = (keyof T & string) | (string & {});
+
+export interface FilterCondition<T = any> {
+	type: "condition";
+	field: FilterField<T>;
+	operator: FilterOperator;
+	value?: any;
+}
+
+export interface FilterGroup<T = any> {
+	type: "and" | "or";
+	children: FilterNode<T>[];
+}
+
+export interface FilterNot<T = any> {
+	type: "not";
+	child: FilterNode<T>;
+}
+
+export type FilterNode<T = any> =
+	| FilterCondition<T>
+	| FilterGroup<T>
+	| FilterNot<T>;
+
+export interface EvaluateFilterOptions {
+	now?: Date;
+}
+
+const OPERATORS: FilterOperator[] = [
+	"equals",
+	"notEquals",
+	"contains",
+	"startsWith",
+	"endsWith",
+	"gt",
+	"gte",
+	"lt",
+	"lte",
+	"in",
+	"nin",
+	"between",
+	"isNull",
+	"isNotNull",
+	"before",
+	"after",
+	"dateBetween",
+	"inDateRange",
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function where<T = any>(
+	field: FilterField<T>,
+	operator: FilterOperator,
+	value?: any,
+): FilterCondition<T> {
+	return value === undefined
+		? { type: "condition", field, operator }
+		: { type: "condition", field, operator, value };
+}
+
+export function and<T = any>(...children: FilterNode<T>[]): FilterGroup<T> {
+	return { type: "and", children };
+}
+
+export function or<T = any>(...children: FilterNode<T>[]): FilterGroup<T> {
+	return { type: "or", children };
+}
+
+export function not<T = any>(child: FilterNode<T>): FilterNot<T> {
+	return { type: "not", child };
+}
+
+const toTime = (value: unknown): number => {
+	if (value instanceof Date) return value.getTime();
+	if (typeof value === "string" || typeof value === "number") {
+		return new Date(value).getTime();
+	}
+	return Number.NaN;
+};
+
+const RELATIVE_DATE_RANGES = ["today", "thisWeek", "thisMonth", "thisYear"];
+
+const isDayCount = (value: unknown) =>
+	typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+export function isRelativeDateRange(
+	value: unknown,
+): value is RelativeDateRange {
+	if (typeof value === "string") return RELATIVE_DATE_RANGES.includes(value);
+	if (!value || typeof value !== "object") return false;
+	return "lastDays" in value
+		? isDayCount(value.lastDays)
+		: "nextDays" in value && isDayCount(value.nextDays);
+}
+
+const startOfDay = (date: Date) =>
+	new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export function resolveDateRange(
+	range: RelativeDateRange,
+	now: Date = new Date(),
+): [Date, Date] {
+	const today = startOfDay(now);
+
+	if (typeof range === "object") {
+		if ("lastDays" in range) {
+			return [new Date(today.getTime() - range.lastDays * DAY), now];
+		}
+		return [now, new Date(today.getTime() + (range.nextDays + 1) * DAY - 1)];
+	}
+
+	switch (range) {
+		case "today":
+			return [today, new Date(today.getTime() + DAY - 1)];
+		case "thisWeek": {
+			// Weeks start on Monday (ISO 8601)
+			const offset = (today.getDay() + 6) % 7;
+			const start = new Date(today.getTime() - offset * DAY);
+			return [start, new Date(start.getTime() + 7 * DAY - 1)];
+		}
+		case "thisMonth":
+			return [
+				new Date(today.getFullYear(), today.getMonth(), 1),
+				new Date(today.getFullYear(), today.getMonth() + 1, 1, 0, 0, 0, -1),
+			];
+		case "thisYear":
+			return [
+				new Date(today.getFullYear(), 0, 1),
+				new Date(today.getFullYear() + 1, 0, 1, 0, 0, 0, -1),
+			];
+	}
+}
+
+export function matchesOperator(
+	itemValue: any,
+	operator: FilterOperator,
+	value: any,
+	options: EvaluateFilterOptions = {},
+): boolean {
+	switch (operator) {
+		case "equals":
+			return itemValue === value;
+		case "notEquals":
+			return itemValue !== value;
+		case "contains":
+			return (
+				typeof itemValue === "string" &&
+				itemValue.toLowerCase().includes(String(value).toLowerCase())
+			);
+		case "startsWith":
+			return (
+				typeof itemValue === "string" &&
+				itemValue.toLowerCase().startsWith(String(value).toLowerCase())
+			);
+		case "endsWith":
+			return (
+				typeof itemValue === "string" &&
+				itemValue.toLowerCase().endsWith(String(value).toLowerCase())
+			);
+		case "gt":
+			return typeof itemValue === "number" && itemValue > value;
+		case "gte":
+			return typeof itemValue === "number" && itemValue >= value;
+		case "lt":
+			return typeof itemValue === "number" && itemValue < value;
+		case "lte":
+			return typeof itemValue === "number" && itemValue <= value;
+		case "in":
+			return Array.isArray(value) && value.includes(itemValue);
+		case "nin":
+			return Array.isArray(value) && !value.includes(itemValue);
+		case "between": {
+			const [min, max] = Array.isArray(value) ? value : [];
+			return (
+				typeof itemValue === "number" && itemValue >= min && itemValue <= max
+			);
+		}
+		case "isNull":
+			return itemValue === null || itemValue === undefined;
+		case "isNotNull":
+			return itemValue !== null && itemValue !== undefined;
+		case "before":
+			return toTime(itemValue) < toTime(value);
+		case "after":
+			return toTime(itemValue) > toTime(value);
+		case "dateBetween": {
+			const [from, to] = Array.isArray(value) ? value : [];
+			const time = toTime(itemValue);
+			return time >= toTime(from) && time <= toTime(to);
+		}
+		case "inDateRange": {
+			if (!isRelativeDateRange(value)) return false;
+			const [from, to] = resolveDateRange(value, options.now);
+			const time = toTime(itemValue);
+			return time >= from.getTime() && time <= to.getTime();
+		}
+		default:
+			return itemValue === value;
+	}
+}
+
+/**
+ * Evaluates a filter tree against an item. Empty groups match everything.
+ */
+export function evaluateFilter<T>(
+	item: T,
+	node: FilterNode<T>,
+	options: EvaluateFilterOptions = {},
+): boolean {
+	switch (node.type) {
+		case "and":
+			return node.children.every((child) =>
+				evaluateFilter(item, child, options),
+			);
+		case "or":
+			return (
+				node.children.length === 0 ||
+				node.children.some((child) => evaluateFilter(item, child, options))
+			);
+		case "not":
+			return !evaluateFilter(item, node.child, options);
+		case "condition":
+			return matchesOperator(
+				getValueByPath(item, node.field),
+				node.operator,
+				node.value,
+				options,
+			);
+	}
+}
+
+export function serializeFilter<T>(node: FilterNode<T>): string {
+	return JSON.stringify(node);
+}
+
+function assertFilterNode(node: any): asserts node is FilterNode {
+	if (!node || typeof node !== "object") {
+		throw new Error("Invalid filter: expected an object");
+	}
+
+	switch (node.type) {
+		case "and":
+		case "or":
+			if (!Array.isArray(node.children)) {
+				throw new Error(`Invalid filter: "${node.type}" requires children`);
+			}
+			node.children.forEach(assertFilterNode);
+			return;
+		case "not":
+			assertFilterNode(node.child);
+			return;
+		case "condition":
+			if (typeof node.field !== "string") {
+				throw new Error("Invalid filter: condition requires a field");
+			}
+			if (!OPERATORS.includes(node.operator)) {
+				throw new Error(`Invalid filter: unknown operator "${node.operator}"`);
+			}
+			if (node.operator === "inDateRange" && !isRelativeDateRange(node.value)) {
+				throw new Error("Invalid filter: unknown date range");
+			}
+			return;
+		default:
+			throw new Error(`Invalid filter: unknown node type "${node.type}"`);
+	}
+}
+
+export function parseFilter<T = any>(
+	json: string | unknown,
+): FilterNode<T> {
+	const node = typeof json === "string" ? JSON.parse(json) : json;
+	assertFilterNode(node);
+	return node;
+}
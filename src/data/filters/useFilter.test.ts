@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { and, or, where } from "./filterTree";
 import { useFilter } from "./useFilter";
 
 interface User {
@@ -235,6 +236,32 @@ describe("useFilter", () => {
 		expect(filteredItems.value).toHaveLength(1);
 		expect(filteredItems.value[0]?.name).toBe("Alice Johnson");
 	});
+
+	it("should apply a filter tree together with flat filters", () => {
+		const { filteredItems, filterBy, setFilterTree } = useFilter(users);
+
+		setFilterTree(
+			or(where("tags", "isNull"), where("age", "between", [28, 30])),
+		);
+		expect(filteredItems.value.map((u) => u.id)).toEqual([1, 4]);
+
+		filterBy("active", true);
+		setFilterTree(
+			or(where("age", "lt", 29), where("name", "contains", "brown")),
+		);
+		expect(filteredItems.value.map((u) => u.id)).toEqual([3, 4]);
+	});
+
+	it("should convert flat filters to a filter tree", () => {
+		const { filterBy, toFilterTree } = useFilter(users);
+
+		filterBy("active", true);
+		filterBy("age", 30, "gte");
+
+		expect(toFilterTree()).toEqual(
+			and(where("active", "equals", true), where("age", "gte", 30)),
+		);
+	});
 });
 
 describe("Filter Helper Functions", () => {
@@ -257,4 +284,5 @@ describe("Filter Helper Functions", () => {
 		expect(rangeFilter(17)).toBe(false);
 		expect(rangeFilter(31)).toBe(false);
 	});
+
 });
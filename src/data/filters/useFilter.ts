@@ -1,29 +1,31 @@
-import { computed, ref } from "vue";
+import { computed, type Ref, ref } from "vue";
+import {
+	evaluateFilter,
+	type FilterNode,
+	type FilterOperator,
+	matchesOperator,
+} from "./filterTree";
 
 export interface FilterOption<T> {
 	key: keyof T;
 	value: any;
-	operator?:
-		| "equals"
-		| "contains"
-		| "startsWith"
-		| "endsWith"
-		| "gt"
-		| "gte"
-		| "lt"
-		| "lte"
-		| "in"
-		| "nin";
+	operator?: FilterOperator;
 	compareFn?: (item: T[keyof T], value: any) => boolean;
 }
 
 export function useFilter<T>(items: T[]) {
 	const filters = ref<FilterOption<T>[]>([]);
+	const filterTree = ref<FilterNode<T> | null>(null) as Ref<
+		FilterNode<T> | null
+	>;
 
 	const filteredItems = computed(() => {
-		if (filters.value.length === 0) return items;
+		if (filters.value.length === 0 && !filterTree.value) return items;
 
 		return items.filter((item) => {
+			if (filterTree.value && !evaluateFilter(item, filterTree.value)) {
+				return false;
+			}
 			return filters.value.every((filter) => {
 				const { key, value, operator = "equals", compareFn } = filter;
 				const itemValue = item[key as keyof T];
@@ -32,39 +34,7 @@ export function useFilter<T>(items: T[]) {
 					return compareFn(itemValue, value);
 				}
 
-				switch (operator) {
-					case "equals":
-						return itemValue === value;
-					case "contains":
-						return (
-							typeof itemValue === "string" &&
-							itemValue.toLowerCase().includes(String(value).toLowerCase())
-						);
-					case "startsWith":
-						return (
-							typeof itemValue === "string" &&
-							itemValue.toLowerCase().startsWith(String(value).toLowerCase())
-						);
-					case "endsWith":
-						return (
-							typeof itemValue === "string" &&
-							itemValue.toLowerCase().endsWith(String(value).toLowerCase())
-						);
-					case "gt":
-						return typeof itemValue === "number" && itemValue > value;
-					case "gte":
-						return typeof itemValue === "number" && itemValue >= value;
-					case "lt":
-						return typeof itemValue === "number" && itemValue < value;
-					case "lte":
-						return typeof itemValue === "number" && itemValue <= value;
-					case "in":
-						return Array.isArray(value) && value.includes(itemValue);
-					case "nin":
-						return Array.isArray(value) && !value.includes(itemValue);
-					default:
-						return itemValue === value;
-				}
+				return matchesOperator(itemValue, operator, value);
 			});
 		});
 	});
@@ -103,8 +73,29 @@ export function useFilter<T>(items: T[]) {
 
 	const clearFilters = () => {
 		filters.value = [];
+		filterTree.value = null;
+	};
+
+	const setFilterTree = (node: FilterNode<T> | null) => {
+		filterTree.value = node;
 	};
 
+	// Flat filters as an AND group; custom compareFn filters cannot be serialized
+	const toFilterTree = (): FilterNode<T> => ({
+		type: "and",
+		children: [
+			...filters.value
+				.filter((filter) => !filter.compareFn)
+				.map((filter) => ({
+					type: "condition" as const,
+					field: String(filter.key),
+					operator: filter.operator ?? "equals",
+					value: filter.value,
+				})),
+			...(filterTree.value ? [filterTree.value] : []),
+		],
+	});
+
 	const hasFilter = (key: keyof T): boolean => {
 		return filters.value.some((filter) => filter.key === key);
 	};
@@ -142,12 +133,15 @@ export function useFilter<T>(items: T[]) {
 
 	return {
 		filters,
+		filterTree,
 		filteredItems,
 		addFilter,
 		removeFilter,
 		updateFilter,
 		updateFilterByObject,
 		clearFilters,
+		setFilterTree,
+		toFilterTree,
 		hasFilter,
 		getFilter,
 		filterBy,
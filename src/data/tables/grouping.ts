@@ -0,0 +1,143 @@
+import { type AggregateType, aggregate } from "../../utils/math/aggregate";
+import { getValueByPath, type SortKey } from "./useSort";
+
+export type ColumnAggregate<T> =
+	| AggregateType
+	| ((values: any[], rows: T[]) => unknown);
+
+export interface GroupRule<T> {
+	key: SortKey<T>;
+	/** Derives the group value, e.g. the month of a date */
+	getValue?: (row: T) => unknown;
+}
+
+export type GroupBy<T> = SortKey<T> | GroupRule<T>;
+
+export interface TableGroup<T> {
+	id: string;
+	key: SortKey<T>;
+	value: unknown;
+	depth: number;
+	rows: T[];
+	children: TableGroup<T>[];
+	aggregates: Record<string, unknown>;
+}
+
+export type TableDisplayRow<T> =
+	| { type: "group"; group: TableGroup<T>; depth: number; isExpanded: boolean }
+	| { type: "row"; row: T; depth: number }
+	| { type: "footer"; group: TableGroup<T>; depth: number };
+
+interface AggregateColumn<T> {
+	key: keyof T;
+	path?: string | undefined;
+	aggregate?: ColumnAggregate<T> | undefined;
+}
+
+const toRule = <T>(groupBy: GroupBy<T>): GroupRule<T> =>
+	typeof groupBy === "object" ? groupBy : { key: groupBy };
+
+// JSON would turn undefined into null, so it gets a token of its own
+const groupId = (path: unknown[]) => {
+	const parts = path.map((value) =>
+		value === undefined ? "undefined" : JSON.stringify(value),
+	);
+	return `[${parts.join(",")}]`;
+};
+
+export function computeAggregates<T>(
+	rows: T[],
+	columns: AggregateColumn<T>[],
+): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	columns.forEach((column) => {
+		if (!column.aggregate) return;
+
+		const values = rows.map((row) =>
+			getValueByPath(row, column.path ?? String(column.key)),
+		);
+		result[String(column.key)] =
+			typeof column.aggregate === "function"
+				? column.aggregate(values, rows)
+				: aggregate(values, column.aggregate);
+	});
+	return result;
+}
+
+/**
+ * Groups rows level by level. Groups keep the order in which their first
+ * row appears, so sorting by the group key also sorts the groups.
+ */
+export function groupRows<T>(
+	rows: T[],
+	groupBy: GroupBy<T>[],
+	columns: AggregateColumn<T>[] = [],
+	parentPath: unknown[] = [],
+): TableGroup<T>[] {
+	const [first, ...rest] = groupBy;
+	if (first === undefined) return [];
+
+	const rule = toRule(first);
+	const buckets = new Map<unknown, T[]>();
+	rows.forEach((row) => {
+		const value = rule.getValue
+			? rule.getValue(row)
+			: getValueByPath(row, String(rule.key));
+		const bucket = buckets.get(value);
+		if (bucket) {
+			bucket.push(row);
+		} else {
+			buckets.set(value, [row]);
+		}
+	});
+
+	return [...buckets].map(([value, members]) => {
+		const path = [...parentPath, value];
+		return {
+			id: groupId(path),
+			key: rule.key,
+			value,
+			depth: parentPath.length,
+			rows: members,
+			children: groupRows(members, rest, columns, path),
+			aggregates: computeAggregates(members, columns),
+		};
+	});
+}
+
+/**
+ * Flattens groups into header, data and footer rows for rendering.
+ * Rows of collapsed groups are left out.
+ */
+export function flattenGroups<T>(
+	groups: TableGroup<T>[],
+	isExpanded: (id: string) => boolean,
+	footers = true,
+): TableDisplayRow<T>[] {
+	const result: TableDisplayRow<T>[] = [];
+
+	const visit = (group: TableGroup<T>) => {
+		const expanded = isExpanded(group.id);
+		result.push({
+			type: "group",
+			group,
+			depth: group.depth,
+			isExpanded: expanded,
+		});
+		if (!expanded) return;
+
+		if (group.children.length > 0) {
+			group.children.forEach(visit);
+		} else {
+			group.rows.forEach((row) => {
+				result.push({ type: "row", row, depth: group.depth + 1 });
+			});
+		}
+		if (footers) {
+			result.push({ type: "footer", group, depth: group.depth });
+		}
+	};
+
+	groups.forEach(visit);
+	return result;
+}
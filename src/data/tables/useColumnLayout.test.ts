@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { nextTick } from "vue";
+import { useColumnLayout } from "./useColumnLayout";
+import type { TableColumn } from "./useTable";
+
+interface Reservation {
+	id: number;
+	guest: string;
+	room: string;
+	total: number;
+}
+
+const columns: TableColumn<Reservation>[] = [
+	{ key: "id", label: "ID", width: "60px" },
+	{ key: "guest", label: "Guest", minWidth: 120 },
+	{ key: "room", label: "Room", maxWidth: 200 },
+	{ key: "total", label: "Total", width: "100px", pinned: "right" },
+];
+
+const keys = (list: { key: unknown }[]) => list.map((col) => col.key);
+
+describe("useColumnLayout", () => {
+	beforeEach(() => {
+		localStorage.clear();
+	});
+
+	it("should order visible columns with pinned columns at the edges", () => {
+		const layout = useColumnLayout(columns, { id: "grid" });
+		layout.pin("room", "left");
+
+		expect(keys(layout.columns.value)).toEqual([
+			"room",
+			"id",
+			"guest",
+			"total",
+		]);
+	});
+
+	it("should reorder columns with drag and drop", () => {
+		const layout = useColumnLayout(columns, { id: "grid" });
+
+		layout.onDragStart("id");
+		layout.onDrop("room");
+		expect(keys(layout.allColumns.value)).toEqual([
+			"guest",
+			"room",
+			"id",
+			"total",
+		]);
+		expect(layout.draggingKey.value).toBeNull();
+	});
+
+	it("should hide and show columns", () => {
+		const layout = useColumnLayout(columns, { id: "grid" });
+
+		layout.toggleVisibility("guest");
+		expect(keys(layout.columns.value)).toEqual(["id", "room", "total"]);
+		expect(layout.allColumns.value[1]?.visible).toBe(false);
+
+		layout.setVisible("guest", true);
+		expect(layout.columns.value).toHaveLength(4);
+	});
+
+	it("should clamp widths to column and global limits", () => {
+		const layout = useColumnLayout(columns, { id: "grid", minWidth: 50 });
+
+		layout.setWidth("guest", 80);
+		layout.setWidth("room", 500);
+		layout.setWidth("id", 10);
+
+		const widths = Object.fromEntries(
+			layout.allColumns.value.map((col) => [col.key, col.width]),
+		);
+		expect(widths).toEqual({
+			id: "50px",
+			guest: "120px",
+			room: "200px",
+			total: "100px",
+		});
+	});
+
+	it("should compute sticky offsets for pinned columns", () => {
+		const layout = useColumnLayout(columns, { id: "grid" });
+		layout.pin("id", "left");
+		layout.pin("guest", "left");
+		layout.setWidth("guest", 150);
+
+		expect(layout.getColumnStyle("guest")).toMatchObject({
+			position: "sticky",
+			left: "60px",
+			width: "150px",
+		});
+		expect(layout.getColumnStyle("total")).toMatchObject({
+			position: "sticky",
+			right: "0px",
+		});
+		expect(layout.getColumnStyle("room").position).toBeUndefined();
+	});
+
+	it("should persist the layout per table id", async () => {
+		const first = useColumnLayout(columns, { id: "reservations" });
+		first.moveColumn("total", 0);
+		first.setVisible("room", false);
+		await nextTick();
+
+		const restored = useColumnLayout(columns, { id: "reservations" });
+		expect(keys(restored.columns.value)).toEqual(["id", "guest", "total"]);
+		expect(restored.allColumns.value[0]?.key).toBe("total");
+
+		const other = useColumnLayout(columns, { id: "invoices" });
+		expect(other.columns.value).toHaveLength(4);
+	});
+
+	it("should reconcile stored layouts with added and removed columns", () => {
+		localStorage.setItem(
+			"column-layout:grid",
+			JSON.stringify({
+				order: ["total", "removed", "guest"],
+				hidden: [],
+				widths: {},
+				pinned: {},
+			}),
+		);
+
+		const layout = useColumnLayout(columns, { id: "grid" });
+		expect(keys(layout.allColumns.value)).toEqual([
+			"total",
+			"guest",
+			"id",
+			"room",
+		]);
+	});
+
+	it("should drop duplicate keys from a stored order", () => {
+		localStorage.setItem(
+			"column-layout:grid",
+			JSON.stringify({
+				order: ["guest", "guest", "id", "room", "total"],
+				hidden: [],
+				widths: {},
+				pinned: {},
+			}),
+		);
+
+		const layout = useColumnLayout(columns, { id: "grid" });
+		expect(keys(layout.allColumns.value)).toEqual([
+			"guest",
+			"id",
+			"room",
+			"total",
+		]);
+	});
+
+	it("should fill in partial or invalid stored layouts", () => {
+		localStorage.setItem(
+			"column-layout:grid",
+			JSON.stringify({
+				hidden: ["room", "removed"],
+				widths: { guest: 150, room: "wide", removed: 80 },
+				pinned: { id: "top", removed: "left" },
+			}),
+		);
+
+		const layout = useColumnLayout(columns, { id: "grid" });
+		expect(layout.state.value).toEqual({
+			order: ["id", "guest", "room", "total"],
+			hidden: ["room"],
+			widths: { guest: 150 },
+			pinned: {},
+		});
+		expect(keys(layout.columns.value)).toEqual(["id", "guest", "total"]);
+	});
+
+	it("should reset to the column defaults", () => {
+		const layout = useColumnLayout(columns, { id: "grid" });
+		layout.setVisible("id", false);
+		layout.pin("total", null);
+		layout.reset();
+
+		expect(keys(layout.columns.value)).toEqual([
+			"id",
+			"guest",
+			"room",
+			"total",
+		]);
+		expect(layout.allColumns.value[3]?.pinned).toBe("right");
+	});
+});
@@ -0,0 +1,292 @@
+import { computed, ref } from "vue";
+import {
+	JSONSerializer,
+	type Serializer,
+	useStorage,
+} from "../../browser/storage/useStorage";
+import type { TableColumn } from "./useTable";
+
+export type ColumnPin = "left" | "right";
+
+export interface ColumnLayoutState {
+	order: string[];
+	hidden: string[];
+	widths: Record<string, number>;
+	pinned: Record<string, ColumnPin>;
+}
+
+export interface UseColumnLayoutOptions {
+	/** Table id; the layout is stored under `column-layout:<id>` */
+	id: string;
+	storage?: Storage | undefined;
+	serializer?: Serializer<ColumnLayoutState>;
+	minWidth?: number;
+	maxWidth?: number;
+}
+
+export interface ColumnStyle {
+	minWidth: string;
+	maxWidth?: string;
+	width?: string;
+	position?: "sticky";
+	left?: string;
+	right?: string;
+}
+
+export interface LayoutColumn<T>
+	extends Omit<TableColumn<T>, "hidden" | "pinned"> {
+	visible: boolean;
+	pinned: ColumnPin | null;
+	width?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPin = (value: unknown): value is ColumnPin =>
+	value === "left" || value === "right";
+
+// Only pixel widths can be clamped and summed for pinned offsets
+const parseWidth = (width: string | undefined) =>
+	width && /^\d+(\.\d+)?(px)?$/.test(width)
+		? Number.parseFloat(width)
+		: undefined;
+
+export function useColumnLayout<T>(
+	columns: TableColumn<T>[],
+	options: UseColumnLayoutOptions,
+) {
+	const {
+		id,
+		serializer = JSONSerializer,
+		minWidth = 40,
+		maxWidth = Number.POSITIVE_INFINITY,
+	} = options;
+	const storage =
+		options.storage ??
+		(typeof window !== "undefined" ? window.localStorage : undefined);
+
+	const keyOf = (column: { key: keyof T }) => String(column.key);
+
+	const defaults = (): ColumnLayoutState => ({
+		order: columns.map(keyOf),
+		hidden: columns.filter((col) => col.hidden).map(keyOf),
+		widths: {},
+		pinned: Object.fromEntries(
+			columns
+				.filter((col) => col.pinned)
+				.map((col) => [keyOf(col), col.pinned as ColumnPin]),
+		),
+	});
+
+	const byKey = new Map(columns.map((col) => [keyOf(col), col]));
+
+	// Deduped, so a key stored twice doesn't render its column twice
+	const knownKeys = (value: unknown) =>
+		Array.isArray(value)
+			? [...new Set(value.filter((key): key is string => byKey.has(key)))]
+			: undefined;
+
+	const knownEntries = <V>(
+		value: unknown,
+		isValid: (item: unknown) => item is V,
+	) =>
+		isRecord(value)
+			? (Object.fromEntries(
+					Object.entries(value).filter(
+						([key, item]) => byKey.has(key) && isValid(item),
+					),
+				) as Record<string, V>)
+			: undefined;
+
+	// Stored layouts may be partial, hand-edited or from another version
+	const sanitize = (stored: unknown): ColumnLayoutState => {
+		const fallback = defaults();
+		if (!isRecord(stored)) return fallback;
+		return {
+			order: knownKeys(stored["order"]) ?? fallback.order,
+			hidden: knownKeys(stored["hidden"]) ?? fallback.hidden,
+			widths:
+				knownEntries(
+					stored["widths"],
+					(width): width is number =>
+						typeof width === "number" && Number.isFinite(width) && width > 0,
+				) ?? fallback.widths,
+			pinned: knownEntries(stored["pinned"], isPin) ?? fallback.pinned,
+		};
+	};
+
+	const state = useStorage<ColumnLayoutState>(
+		`column-layout:${id}`,
+		defaults(),
+		storage,
+		{ serializer, writeDefaults: false },
+	);
+	const sanitized = sanitize(state.value);
+	if (JSON.stringify(sanitized) !== JSON.stringify(state.value)) {
+		state.value = sanitized;
+	}
+
+	// Stored layouts may predate added or removed columns
+	const order = computed(() => {
+		const known = state.value.order.filter((key) => byKey.has(key));
+		const added = columns.map(keyOf).filter((key) => !known.includes(key));
+		return [...known, ...added];
+	});
+
+	const getLimits = (key: string) => {
+		const column = byKey.get(key);
+		return {
+			min: column?.minWidth ?? minWidth,
+			max: column?.maxWidth ?? maxWidth,
+		};
+	};
+
+	const clampWidth = (key: string, width: number) => {
+		const { min, max } = getLimits(key);
+		return Math.min(Math.max(width, min), max);
+	};
+
+	const getWidth = (key: string): number | undefined => {
+		const width =
+			state.value.widths[key] ?? parseWidth(byKey.get(key)?.width);
+		return width === undefined ? undefined : clampWidth(key, width);
+	};
+
+	const getPinned = (key: string) => state.value.pinned[key] ?? null;
+
+	const isVisible = (key: string) => !state.value.hidden.includes(key);
+
+	const toLayoutColumn = (key: string): LayoutColumn<T> => {
+		const width = getWidth(key);
+		const column: LayoutColumn<T> = {
+			...byKey.get(key)!,
+			visible: isVisible(key),
+			pinned: getPinned(key),
+		};
+		if (width !== undefined) column.width = `${width}px`;
+		return column;
+	};
+
+	// Every column in the user's order, for column pickers
+	const allColumns = computed(() => order.value.map(toLayoutColumn));
+
+	// Visible columns: left-pinned first, right-pinned last
+	const visibleColumns = computed(() => {
+		const visible = allColumns.value.filter((col) => col.visible);
+		return [
+			...visible.filter((col) => col.pinned === "left"),
+			...visible.filter((col) => col.pinned === null),
+			...visible.filter((col) => col.pinned === "right"),
+		];
+	});
+
+	const update = (patch: Partial<ColumnLayoutState>) => {
+		state.value = { ...state.value, ...patch };
+	};
+
+	const moveColumn = (key: string, toIndex: number) => {
+		const next = order.value.filter((item) => item !== key);
+		if (next.length === order.value.length) return;
+
+		const index = Math.min(Math.max(toIndex, 0), next.length);
+		next.splice(index, 0, key);
+		update({ order: next });
+	};
+
+	const setVisible = (key: string, visible: boolean) => {
+		const hidden = state.value.hidden.filter((item) => item !== key);
+		if (!visible) hidden.push(key);
+		update({ hidden });
+	};
+
+	const toggleVisibility = (key: string) => {
+		setVisible(key, !isVisible(key));
+	};
+
+	const setWidth = (key: string, width: number) => {
+		const widths = { ...state.value.widths, [key]: clampWidth(key, width) };
+		update({ widths });
+	};
+
+	const pin = (key: string, side: ColumnPin | null) => {
+		const pinned = { ...state.value.pinned };
+		if (side) {
+			pinned[key] = side;
+		} else {
+			delete pinned[key];
+		}
+		update({ pinned });
+	};
+
+	/**
+	 * Inline styles for a sticky, pinned column. Offsets add up the widths
+	 * of the pinned columns before it (left) or after it (right).
+	 */
+	const getColumnStyle = (key: string) => {
+		const width = getWidth(key);
+		const { min, max } = getLimits(key);
+		const style: ColumnStyle = { minWidth: `${min}px` };
+		if (Number.isFinite(max)) style.maxWidth = `${max}px`;
+		if (width !== undefined) style.width = `${width}px`;
+
+		const side = getPinned(key);
+		if (side) {
+			const pinned = visibleColumns.value.filter(
+				(col) => col.pinned === side,
+			);
+			if (side === "right") pinned.reverse();
+			const before = pinned.slice(
+				0,
+				pinned.findIndex((col) => keyOf(col) === key),
+			);
+			const offset = before.reduce(
+				(sum, col) => sum + (getWidth(keyOf(col)) ?? 0),
+				0,
+			);
+			style.position = "sticky";
+			style[side] = `${offset}px`;
+		}
+		return style;
+	};
+
+	// Drag reordering of header cells
+	const draggingKey = ref<string | null>(null);
+
+	const onDragStart = (key: string) => {
+		draggingKey.value = key;
+	};
+
+	const onDragOver = (e: DragEvent) => {
+		e.preventDefault();
+	};
+
+	const onDrop = (targetKey: string) => {
+		if (draggingKey.value && draggingKey.value !== targetKey) {
+			moveColumn(draggingKey.value, order.value.indexOf(targetKey));
+		}
+		draggingKey.value = null;
+	};
+
+	const reset = () => {
+		state.value = defaults();
+	};
+
+	return {
+		state,
+		columns: visibleColumns,
+		allColumns,
+		draggingKey,
+		isVisible,
+		moveColumn,
+		setVisible,
+		toggleVisibility,
+		setWidth,
+		pin,
+		getColumnStyle,
+		onDragStart,
+		onDragOver,
+		onDrop,
+		reset,
+	};
+}
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
 import { useDraggableRows } from "./useDraggableRows";
 
@@ -54,4 +54,123 @@ describe("useDraggableRows", () => {
 
 		expect(list.value.map((i) => i.id)).toEqual([3, 1, 2]);
 	});
+
+	it("should call onReorder with the old and new index", () => {
+		const data = ref([...initialData]);
+		const onReorder = vi.fn();
+		const { onDragStart, onDrop } = useDraggableRows(data, { onReorder });
+
+		onDragStart(data.value[0]!);
+		onDrop(data.value[2]!);
+
+		expect(onReorder).toHaveBeenCalledWith(0, 2);
+	});
+
+	describe("pointer", () => {
+		const pointer = (type: string, clientY: number) =>
+			Object.assign(new Event(type), { pointerId: 1, button: 0, clientY });
+
+		const setup = () => {
+			const data = ref([...initialData]);
+			const onReorder = vi.fn();
+			const rows = useDraggableRows(data, { onReorder });
+			// Rows are 20px high, stacked from y = 0
+			data.value.forEach((_, index) => {
+				const el = document.createElement("tr");
+				el.getBoundingClientRect = () =>
+					({ top: index * 20, height: 20 }) as DOMRect;
+				rows.setRowElement(el, index);
+			});
+			return { data, onReorder, ...rows };
+		};
+
+		it("should show a drop indicator while dragging", () => {
+			const {
+				data,
+				onPointerDown,
+				isDragging,
+				dropIndicator,
+				getDropPosition,
+			} = setup();
+
+			onPointerDown(data.value[0]!, pointer("pointerdown", 5) as PointerEvent);
+			window.dispatchEvent(pointer("pointermove", 45));
+
+			expect(isDragging.value).toBe(true);
+			expect(dropIndicator.value).toEqual({ index: 2, position: "before" });
+			expect(getDropPosition(2)).toBe("before");
+			expect(getDropPosition(1)).toBeNull();
+
+			window.dispatchEvent(pointer("pointerup", 45));
+		});
+
+		it("should reorder on pointer up", () => {
+			const { data, onReorder, onPointerDown, isDragging } = setup();
+
+			onPointerDown(data.value[0]!, pointer("pointerdown", 5) as PointerEvent);
+			window.dispatchEvent(pointer("pointermove", 55));
+			window.dispatchEvent(pointer("pointerup", 55));
+
+			expect(data.value.map((i) => i.id)).toEqual([2, 3, 1]);
+			expect(onReorder).toHaveBeenCalledWith(0, 2);
+			expect(isDragging.value).toBe(false);
+		});
+
+		it("should ignore presses below the drag threshold", () => {
+			const { data, onReorder, onPointerDown } = setup();
+
+			onPointerDown(data.value[0]!, pointer("pointerdown", 5) as PointerEvent);
+			window.dispatchEvent(pointer("pointermove", 7));
+			window.dispatchEvent(pointer("pointerup", 7));
+
+			expect(onReorder).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("keyboard", () => {
+		const key = (value: string) => new KeyboardEvent("keydown", { key: value });
+
+		it("should grab, move and drop with announcements", () => {
+			const data = ref([...initialData]);
+			const onReorder = vi.fn();
+			const { list, onKeydown, grabbedIndex, announcement } =
+				useDraggableRows(data, {
+					onReorder,
+					getLabel: (item) => item.name,
+				});
+
+			onKeydown(data.value[0]!, key(" "));
+			expect(grabbedIndex.value).toBe(0);
+			expect(announcement.value).toContain("Alice grabbed, position 1 of 3");
+
+			onKeydown(data.value[0]!, key("ArrowDown"));
+			expect(list.value.map((i) => i.id)).toEqual([2, 1, 3]);
+			expect(data.value.map((i) => i.id)).toEqual([1, 2, 3]);
+			expect(announcement.value).toBe("Alice moved to position 2 of 3.");
+
+			onKeydown(data.value[0]!, key(" "));
+			expect(data.value.map((i) => i.id)).toEqual([2, 1, 3]);
+			expect(onReorder).toHaveBeenCalledWith(0, 1);
+			expect(announcement.value).toBe("Alice dropped at position 2 of 3.");
+			expect(grabbedIndex.value).toBeNull();
+		});
+
+		it("should restore the order on escape", () => {
+			const data = ref([...initialData]);
+			const onReorder = vi.fn();
+			const { list, onKeydown, announcement } = useDraggableRows(data, {
+				onReorder,
+			});
+
+			onKeydown(data.value[2]!, key("Enter"));
+			onKeydown(data.value[2]!, key("ArrowUp"));
+			onKeydown(data.value[2]!, key("Escape"));
+
+			expect(list.value.map((i) => i.id)).toEqual([1, 2, 3]);
+			expect(onReorder).not.toHaveBeenCalled();
+			expect(announcement.value).toBe(
+				"Row 3 returned to its original position.",
+			);
+		});
+	});
 });
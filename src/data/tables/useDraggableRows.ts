@@ -1,7 +1,52 @@
 import type { Ref } from "vue";
-import { ref, watch } from "vue";
+import { getCurrentInstance, onUnmounted, ref, watch } from "vue";
+
+export type DropPosition = "before" | "after";
+
+export interface DropIndicator {
+	index: number;
+	position: DropPosition;
+}
+
+export interface DraggableRowsMessages {
+	grabbed: (label: string, position: number, total: number) => string;
+	moved: (label: string, position: number, total: number) => string;
+	dropped: (label: string, position: number, total: number) => string;
+	cancelled: (label: string) => string;
+}
+
+export interface UseDraggableRowsOptions<T> {
+	/** Called once per completed move with the old and new index */
+	onReorder?: (from: number, to: number) => void;
+	/** Names the row in screen reader announcements */
+	getLabel?: (item: T, index: number) => string;
+	messages?: Partial<DraggableRowsMessages>;
+	/** Pointer travel in pixels before a press becomes a drag */
+	threshold?: number;
+}
+
+const defaultMessages: DraggableRowsMessages = {
+	grabbed: (label, position, total) =>
+		`${label} grabbed, position ${position} of ${total}. ` +
+		"Use the arrow keys to move, space to drop or escape to cancel.",
+	moved: (label, position, total) =>
+		`${label} moved to position ${position} of ${total}.`,
+	dropped: (label, position, total) =>
+		`${label} dropped at position ${position} of ${total}.`,
+	cancelled: (label) => `${label} returned to its original position.`,
+};
+
+export function useDraggableRows<T>(
+	data: Ref<T[]>,
+	options: UseDraggableRowsOptions<T> = {},
+) {
+	const {
+		onReorder,
+		getLabel = (_item, index) => `Row ${index + 1}`,
+		threshold = 4,
+	} = options;
+	const messages = { ...defaultMessages, ...options.messages };
 
-export function useDraggableRows<T>(data: Ref<T[]>) {
 	const list = ref(data.value) as Ref<T[]>;
 	const draggingItem = ref<T | null>(null);
 
@@ -9,6 +54,31 @@ export function useDraggableRows<T>(data: Ref<T[]>) {
 		list.value = newData;
 	});
 
+	const announcement = ref("");
+	const liveRegionProps = {
+		role: "status",
+		"aria-live": "assertive" as const,
+		"aria-atomic": "true" as const,
+	};
+
+	const announce = (message: string) => {
+		announcement.value = message;
+	};
+
+	const reorder = (from: number, to: number) => {
+		if (from === to) return;
+
+		const next = [...list.value];
+		const [removed] = next.splice(from, 1);
+		if (removed === undefined) return;
+		next.splice(to, 0, removed);
+
+		list.value = next;
+		data.value = [...next];
+		onReorder?.(from, to);
+	};
+
+	// HTML5 drag and drop
 	const onDragStart = (item: T) => {
 		draggingItem.value = item;
 	};
@@ -24,21 +94,190 @@ export function useDraggableRows<T>(data: Ref<T[]>) {
 		const toIndex = list.value.indexOf(targetItem);
 
 		if (fromIndex > -1 && toIndex > -1) {
-			const [removed] = list.value.splice(fromIndex, 1);
-			if (removed) {
-				list.value.splice(toIndex, 0, removed);
-			}
+			reorder(fromIndex, toIndex);
 		}
 
 		draggingItem.value = null;
-		// Emit an event or update the original data ref
-		data.value = [...list.value];
 	};
 
+	// Pointer events, which also cover touch and pen input. Give the drag
+	// handle `touch-action: none` so touch moves don't scroll the page.
+	const rowElements: (Element | undefined)[] = [];
+	const isDragging = ref(false);
+	const draggingIndex = ref<number | null>(null);
+	const dropIndicator = ref<DropIndicator | null>(null);
+
+	let pointerId: number | null = null;
+	let startY = 0;
+
+	const setRowElement = (el: Element | null, index: number) => {
+		rowElements[index] = el ?? undefined;
+	};
+
+	const getDropIndicator = (clientY: number): DropIndicator | null => {
+		let last: DropIndicator | null = null;
+		for (let index = 0; index < list.value.length; index++) {
+			const rect = rowElements[index]?.getBoundingClientRect();
+			if (!rect) continue;
+			if (clientY < rect.top + rect.height / 2) {
+				return { index, position: "before" };
+			}
+			last = { index, position: "after" };
+		}
+		return last;
+	};
+
+	// The index the dragged row ends up at once it is removed and reinserted
+	const getTargetIndex = (from: number, indicator: DropIndicator) => {
+		const insertAt =
+			indicator.position === "before" ? indicator.index : indicator.index + 1;
+		return insertAt > from ? insertAt - 1 : insertAt;
+	};
+
+	const getDropPosition = (index: number): DropPosition | null =>
+		dropIndicator.value?.index === index ? dropIndicator.value.position : null;
+
+	const removePointerListeners = () => {
+		window.removeEventListener("pointermove", onPointerMove);
+		window.removeEventListener("pointerup", onPointerUp);
+		window.removeEventListener("pointercancel", onPointerCancel);
+	};
+
+	const endPointerDrag = () => {
+		removePointerListeners();
+		pointerId = null;
+		isDragging.value = false;
+		draggingIndex.value = null;
+		dropIndicator.value = null;
+	};
+
+	const onPointerMove = (e: PointerEvent) => {
+		if (e.pointerId !== pointerId) return;
+
+		if (!isDragging.value) {
+			if (Math.abs(e.clientY - startY) < threshold) return;
+			isDragging.value = true;
+		}
+
+		e.preventDefault();
+		dropIndicator.value = getDropIndicator(e.clientY);
+	};
+
+	const onPointerUp = (e: PointerEvent) => {
+		if (e.pointerId !== pointerId) return;
+
+		const from = draggingIndex.value;
+		const indicator = dropIndicator.value;
+		const dragged = isDragging.value;
+		endPointerDrag();
+
+		if (dragged && from !== null && indicator) {
+			reorder(from, getTargetIndex(from, indicator));
+		}
+	};
+
+	const onPointerCancel = (e: PointerEvent) => {
+		if (e.pointerId === pointerId) endPointerDrag();
+	};
+
+	const onPointerDown = (item: T, e: PointerEvent) => {
+		if (e.button !== 0 || pointerId !== null) return;
+
+		const index = list.value.indexOf(item);
+		if (index === -1) return;
+
+		pointerId = e.pointerId;
+		startY = e.clientY;
+		draggingIndex.value = index;
+		window.addEventListener("pointermove", onPointerMove);
+		window.addEventListener("pointerup", onPointerUp);
+		window.addEventListener("pointercancel", onPointerCancel);
+	};
+
+	// Keyboard: space grabs and drops, arrows move, escape cancels
+	const grabbedIndex = ref<number | null>(null);
+	let originIndex = -1;
+	let snapshot: T[] = [];
+	let label = "";
+
+	const move = (to: number) => {
+		const from = grabbedIndex.value;
+		if (from === null || to < 0 || to >= list.value.length) return;
+
+		const next = [...list.value];
+		const [removed] = next.splice(from, 1);
+		next.splice(to, 0, removed as T);
+		list.value = next;
+		grabbedIndex.value = to;
+		announce(messages.moved(label, to + 1, next.length));
+	};
+
+	const onKeydown = (item: T, e: KeyboardEvent) => {
+		const grabbed = grabbedIndex.value;
+		const total = list.value.length;
+
+		if (grabbed === null) {
+			if (e.key !== " " && e.key !== "Enter") return;
+
+			const index = list.value.indexOf(item);
+			if (index === -1) return;
+			e.preventDefault();
+			grabbedIndex.value = index;
+			originIndex = index;
+			snapshot = [...list.value];
+			label = getLabel(item, index);
+			announce(messages.grabbed(label, index + 1, total));
+			return;
+		}
+
+		switch (e.key) {
+			case "ArrowUp":
+				move(grabbed - 1);
+				break;
+			case "ArrowDown":
+				move(grabbed + 1);
+				break;
+			case " ":
+			case "Enter":
+				grabbedIndex.value = null;
+				list.value = snapshot;
+				reorder(originIndex, grabbed);
+				announce(messages.dropped(label, grabbed + 1, total));
+				break;
+			case "Escape":
+				grabbedIndex.value = null;
+				list.value = snapshot;
+				announce(messages.cancelled(label));
+				break;
+			default:
+				return;
+		}
+		e.preventDefault();
+	};
+
+	const stop = () => {
+		endPointerDrag();
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
 	return {
 		list,
 		onDragStart,
 		onDragOver,
 		onDrop,
+		isDragging,
+		draggingIndex,
+		dropIndicator,
+		getDropPosition,
+		setRowElement,
+		onPointerDown,
+		grabbedIndex,
+		onKeydown,
+		announcement,
+		liveRegionProps,
+		stop,
 	};
 }
@@ -1,6 +1,11 @@
 import { describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
-import { useExport } from "./useExport";
+import {
+	escapeDelimitedField,
+	serializeDelimited,
+	toExportColumns,
+	useExport,
+} from "./useExport";
 
 // Mocking browser APIs
 global.URL.createObjectURL = vi.fn(() => "mock-url");
@@ -40,6 +45,19 @@ describe("useExport", () => {
 		removeChild.mockRestore();
 	});
 
+	it("should revoke the download URL after the click", () => {
+		vi.useFakeTimers();
+		vi.mocked(URL.revokeObjectURL).mockClear();
+		const { exportToCSV } = useExport(data);
+
+		exportToCSV({ filename: "test.csv" });
+		expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+		vi.runAllTimers();
+		expect(URL.revokeObjectURL).toHaveBeenCalledWith("mock-url");
+		vi.useRealTimers();
+	});
+
 	it("should handle empty data", () => {
 		const emptyData = ref([]);
 		const { exportToCSV } = useExport(emptyData);
@@ -50,9 +68,121 @@ describe("useExport", () => {
 	});
 
 	it("should use custom headers if provided", () => {
-		// This is harder to test without inspecting the Blob content directly,
-		// which is complex in a Node environment. We'll trust the implementation for now.
-		// A more advanced test could use a library to parse the Blob content.
-		expect(true).toBe(true); // Placeholder assertion
+		const { exportToCSV } = useExport(data);
+
+		const result = exportToCSV({ headers: ["name", "id"], download: false });
+		expect(result?.content).toBe(
+			'name,id\r\nAlice,1\r\nBob,2',
+		);
+	});
+
+	it("should return the file without downloading", () => {
+		const { exportToCSV } = useExport(data);
+		vi.mocked(URL.createObjectURL).mockClear();
+
+		const result = exportToCSV({ download: false, bom: true });
+
+		expect(URL.createObjectURL).not.toHaveBeenCalled();
+		expect(result?.filename).toBe("export.csv");
+		expect(result?.mimeType).toBe("text/csv;charset=utf-8;");
+		expect(result?.content).toBe(
+			"\uFEFFid,name,email\r\n1,Alice,alice@example.com\r\n" +
+				'2,Bob,"bob,smith@example.com"',
+		);
+		expect(result?.blob.type).toBe("text/csv;charset=utf-8;");
+	});
+
+	it("should map columns with labels and formatters from TableColumn", () => {
+		const bookings = ref([
+			{
+				id: 1,
+				guest: { name: "Ann" },
+				total: 120.5,
+				checkIn: new Date("2024-03-01T00:00:00Z"),
+			},
+		]);
+		const { exportToTSV } = useExport(bookings);
+
+		const result = exportToTSV({
+			download: false,
+			lineEnding: "\n",
+			formatDate: (date) => date.toISOString().slice(0, 10),
+			columns: toExportColumns([
+				{ key: "guest", label: "Guest", path: "guest.name" },
+				{
+					key: "total",
+					label: "Total",
+					render: (value: number) => `$${value.toFixed(2)}`,
+				},
+				{ key: "checkIn", label: "Check-in" },
+			]),
+		});
+
+		expect(result?.content).toBe(
+			"Guest\tTotal\tCheck-in\nAnn\t$120.50\t2024-03-01",
+		);
+	});
+
+	it("should export JSON and JSON Lines", () => {
+		const { exportToJSON, exportToJSONLines } = useExport(data);
+		const columns = [{ key: "id" }, { key: "name", format: String }];
+
+		const json = exportToJSON({ download: false, columns });
+		expect(JSON.parse(json?.content as string)).toEqual([
+			{ id: 1, name: "Alice" },
+			{ id: 2, name: "Bob" },
+		]);
+
+		const lines = exportToJSONLines({ download: false, columns });
+		expect(lines?.content).toBe(
+			'{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}',
+		);
+		expect(lines?.filename).toBe("export.jsonl");
+	});
+
+	it("should write a minimal XLSX workbook", () => {
+		const { exportToXLSX } = useExport(data);
+
+		const result = exportToXLSX({ download: false, sheetName: "Guests" });
+		const bytes = result?.content as Uint8Array;
+		const text = new TextDecoder().decode(bytes);
+
+		// ZIP local file header signature
+		expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+		expect(text).toContain("[Content_Types].xml");
+		expect(text).toContain('<sheet name="Guests"');
+		expect(text).toContain('<c r="A2"><v>1</v></c>');
+		expect(text).toContain(
+			'<c r="C3" t="inlineStr"><is><t xml:space="preserve">bob,smith@example.com</t></is></c>',
+		);
+	});
+
+	it("should replace characters Excel forbids in sheet names", () => {
+		const { exportToXLSX } = useExport(data);
+
+		const result = exportToXLSX({
+			download: false,
+			sheetName: "Q1/Q2 [draft]",
+		});
+		const text = new TextDecoder().decode(result?.content as Uint8Array);
+
+		expect(text).toContain('<sheet name="Q1-Q2 -draft-"');
+	});
+});
+
+describe("serializeDelimited", () => {
+	it("should escape quotes and line breaks per RFC 4180", () => {
+		expect(escapeDelimitedField('Say "hi"')).toBe('"Say ""hi"""');
+		expect(escapeDelimitedField("line 1\nline 2")).toBe('"line 1\nline 2"');
+		expect(escapeDelimitedField("plain")).toBe("plain");
+	});
+
+	it("should format empty values, objects and formulas", () => {
+		const csv = serializeDelimited(
+			[{ a: null, b: { x: 1 }, c: "=SUM(A1)" }],
+			{ escapeFormulas: true, includeHeaders: false },
+		);
+
+		expect(csv).toBe(',"{""x"":1}",\'=SUM(A1)');
 	});
 });
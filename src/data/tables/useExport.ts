@@ -1,55 +1,281 @@
 import type { Ref } from "vue";
 import { ref } from "vue";
+import { getValueByPath } from "./useSort";
+import type { TableColumn } from "./useTable";
+import { createXlsx, type XlsxCell } from "./xlsx";
 
-interface ExportOptions {
+export type ExportFormat = "csv" | "tsv" | "json" | "jsonl" | "xlsx";
+
+export interface ExportColumn<T> {
+	/** Column key or dot path, e.g. `guest.lastName` */
+	key: keyof T | (string & {});
+	label?: string;
+	format?: (value: any, row: T) => unknown;
+}
+
+export interface ExportOptions<T = any> {
 	filename?: string;
 	delimiter?: string;
 	headers?: string[];
+	columns?: ExportColumn<T>[];
+	includeHeaders?: boolean;
+	/** Prepends a UTF-8 byte order mark so Excel detects the encoding */
+	bom?: boolean;
+	lineEnding?: "\r\n" | "\n";
+	formatDate?: (date: Date) => string;
+	/** Prefixes cells starting with `=`, `+`, `-` or `@` to block formulas */
+	escapeFormulas?: boolean;
+	sheetName?: string;
+	/** When false, the file is only built and returned */
+	download?: boolean;
+}
+
+export interface ExportResult {
+	content: string | Uint8Array;
+	blob: Blob;
+	filename: string;
+	mimeType: string;
+}
+
+const mimeTypes: Record<ExportFormat, string> = {
+	csv: "text/csv;charset=utf-8;",
+	tsv: "text/tab-separated-values;charset=utf-8;",
+	json: "application/json;charset=utf-8;",
+	jsonl: "application/x-ndjson;charset=utf-8;",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const BOM = "\uFEFF";
+
+export function toExportColumns<T>(
+	columns: TableColumn<T>[],
+): ExportColumn<T>[] {
+	return columns.map((column) => {
+		const exportColumn: ExportColumn<T> = {
+			key: column.path ?? column.key,
+			label: column.label,
+		};
+		if (column.render) exportColumn.format = column.render;
+		return exportColumn;
+	});
+}
+
+function resolveColumns<T>(rows: T[], options: ExportOptions<T>) {
+	if (options.columns) return options.columns;
+
+	const keys = options.headers ?? Object.keys(rows[0] ?? {});
+	return keys.map((key): ExportColumn<T> => ({ key, label: key }));
+}
+
+function getExportValue<T>(row: T, column: ExportColumn<T>) {
+	const value = getValueByPath(row, String(column.key));
+	return column.format ? column.format(value, row) : value;
+}
+
+const defaultFormatDate = (date: Date) => date.toISOString();
+
+function formatCell(value: unknown, options: ExportOptions): string {
+	const { formatDate = defaultFormatDate, escapeFormulas = false } = options;
+
+	let text: string;
+	if (value === null || value === undefined) {
+		text = "";
+	} else if (value instanceof Date) {
+		text = Number.isNaN(value.getTime()) ? "" : formatDate(value);
+	} else if (typeof value === "object") {
+		text = JSON.stringify(value);
+	} else {
+		text = String(value);
+	}
+
+	if (escapeFormulas && /^[=+\-@]/.test(text)) {
+		text = `'${text}`;
+	}
+	return text;
+}
+
+/**
+ * RFC 4180: fields containing the delimiter, quotes or line breaks are
+ * quoted, and embedded quotes are doubled.
+ */
+export function escapeDelimitedField(value: string, delimiter = ","): string {
+	if (
+		value.includes(delimiter) ||
+		value.includes('"') ||
+		value.includes("\n") ||
+		value.includes("\r")
+	) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
+
+export function serializeDelimited<T>(
+	rows: T[],
+	options: ExportOptions<T> = {},
+): string {
+	const {
+		delimiter = ",",
+		includeHeaders = true,
+		lineEnding = "\r\n",
+	} = options;
+	const columns = resolveColumns(rows, options);
+
+	const lines = rows.map((row) =>
+		columns
+			.map((column) =>
+				escapeDelimitedField(
+					formatCell(getExportValue(row, column), options),
+					delimiter,
+				),
+			)
+			.join(delimiter),
+	);
+
+	if (includeHeaders) {
+		lines.unshift(
+			columns
+				.map((column) =>
+					escapeDelimitedField(column.label ?? String(column.key), delimiter),
+				)
+				.join(delimiter),
+		);
+	}
+
+	return lines.join(lineEnding);
+}
+
+function toRecord<T>(row: T, columns: ExportColumn<T>[]) {
+	return Object.fromEntries(
+		columns.map((column) => [
+			String(column.key),
+			getExportValue(row, column) ?? null,
+		]),
+	);
+}
+
+export function serializeJSON<T>(rows: T[], options: ExportOptions<T> = {}) {
+	const columns = resolveColumns(rows, options);
+	return JSON.stringify(rows.map((row) => toRecord(row, columns)), null, 2);
+}
+
+export function serializeJSONLines<T>(
+	rows: T[],
+	options: ExportOptions<T> = {},
+) {
+	const columns = resolveColumns(rows, options);
+	return rows.map((row) => JSON.stringify(toRecord(row, columns))).join("\n");
+}
+
+export function serializeXLSX<T>(rows: T[], options: ExportOptions<T> = {}) {
+	const { includeHeaders = true, sheetName } = options;
+	const columns = resolveColumns(rows, options);
+
+	const cells: XlsxCell[][] = rows.map((row) =>
+		columns.map((column) => {
+			const value = getExportValue(row, column);
+			return typeof value === "number" || typeof value === "boolean"
+				? value
+				: formatCell(value, options);
+		}),
+	);
+
+	if (includeHeaders) {
+		cells.unshift(columns.map((column) => column.label ?? String(column.key)));
+	}
+
+	return createXlsx(cells, sheetName);
+}
+
+export function serialize<T>(
+	rows: T[],
+	format: ExportFormat,
+	options: ExportOptions<T> = {},
+): string | Uint8Array {
+	switch (format) {
+		case "csv":
+			return serializeDelimited(rows, options);
+		case "tsv":
+			return serializeDelimited(rows, { ...options, delimiter: "\t" });
+		case "json":
+			return serializeJSON(rows, options);
+		case "jsonl":
+			return serializeJSONLines(rows, options);
+		case "xlsx":
+			return serializeXLSX(rows, options);
+	}
+}
+
+function triggerDownload(blob: Blob, filename: string) {
+	const link = document.createElement("a");
+	const url = URL.createObjectURL(blob);
+	link.setAttribute("href", url);
+	link.setAttribute("download", filename);
+	link.style.visibility = "hidden";
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	// Some browsers start the download after click() returns
+	setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 export function useExport<T extends Record<string, any>>(data: Ref<T[]>) {
 	const isExporting = ref(false);
 
-	function exportToCSV(options: ExportOptions = {}) {
+	function exportAs(
+		format: ExportFormat,
+		options: ExportOptions<T> = {},
+	): ExportResult | null {
 		isExporting.value = true;
 		try {
-			const { filename = "export.csv", delimiter = ",", headers } = options;
+			const {
+				filename = `export.${format}`,
+				bom = false,
+				download = true,
+			} = options;
 			const dataToExport = data.value;
 
-			if (dataToExport.length === 0) return;
-
-			const columnHeaders = headers || Object.keys(dataToExport[0]!);
-			const csvContent = [
-				columnHeaders.join(delimiter),
-				...dataToExport.map((item) =>
-					columnHeaders
-						.map((header) => {
-							const value = item[header as keyof T];
-							if (typeof value === "string" && value.includes(delimiter)) {
-								return `"${value}"`;
-							}
-							return value;
-						})
-						.join(delimiter),
-				),
-			].join("\n");
-
-			const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-			const link = document.createElement("a");
-			const url = URL.createObjectURL(blob);
-			link.setAttribute("href", url);
-			link.setAttribute("download", filename);
-			link.style.visibility = "hidden";
-			document.body.appendChild(link);
-			link.click();
-			document.body.removeChild(link);
+			// Without rows or columns there is nothing to export
+			if (dataToExport.length === 0 && !options.columns) return null;
+
+			const serialized = serialize(dataToExport, format, options);
+			const content =
+				bom && typeof serialized === "string" ? BOM + serialized : serialized;
+			const mimeType = mimeTypes[format];
+			const blob = new Blob([content as BlobPart], { type: mimeType });
+
+			if (download) {
+				triggerDownload(blob, filename);
+			}
+
+			return { content, blob, filename, mimeType };
 		} finally {
 			isExporting.value = false;
 		}
 	}
 
+	const exportToCSV = (options: ExportOptions<T> = {}) =>
+		exportAs("csv", options);
+
+	const exportToTSV = (options: ExportOptions<T> = {}) =>
+		exportAs("tsv", options);
+
+	const exportToJSON = (options: ExportOptions<T> = {}) =>
+		exportAs("json", options);
+
+	const exportToJSONLines = (options: ExportOptions<T> = {}) =>
+		exportAs("jsonl", options);
+
+	const exportToXLSX = (options: ExportOptions<T> = {}) =>
+		exportAs("xlsx", options);
+
 	return {
 		isExporting,
+		exportAs,
 		exportToCSV,
+		exportToTSV,
+		exportToJSON,
+		exportToJSONLines,
+		exportToXLSX,
 	};
 }
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { ref } from "vue";
+import { or, where } from "../filters/filterTree";
 import { useFilter } from "./useFilter";
 
 describe("useFilter", () => {
@@ -60,4 +61,16 @@ describe("useFilter", () => {
 		});
 		expect(filteredData.value).toEqual([{ id: 3, name: "Charlie", age: 35 }]);
 	});
+
+	it("should evaluate a filter tree", () => {
+		const { filteredData, setFilterTree, clearFilters } = useFilter(data);
+
+		setFilterTree(
+			or(where("age", "equals", 25), where("name", "equals", "David")),
+		);
+		expect(filteredData.value.map((item) => item.id)).toEqual([1, 4]);
+
+		clearFilters();
+		expect(filteredData.value).toEqual(data.value);
+	});
 });
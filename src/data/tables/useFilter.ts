@@ -1,23 +1,34 @@
 import { computed, type Ref, ref } from "vue";
+import { evaluateFilter, type FilterNode } from "../filters/filterTree";
 
 export interface UseFilterOptions<T> {
 	initialFilters?: Ref<Array<(item: T) => boolean>>;
+	initialFilterTree?: FilterNode<T>;
 }
 
 export function useFilter<T>(
 	data: Ref<T[]>,
 	options: UseFilterOptions<T> = {},
 ) {
-	const { initialFilters } = options;
+	const { initialFilters, initialFilterTree } = options;
 
 	const filters = ref<Array<(item: T) => boolean>>(
 		initialFilters?.value ? [...initialFilters.value] : [],
 	);
 
-	const filteredData = computed(() => {
-		if (filters.value.length === 0) return data.value;
+	const filterTree = ref<FilterNode<T> | null>(
+		initialFilterTree ?? null,
+	) as Ref<FilterNode<T> | null>;
 
-		return data.value.filter((item) => filters.value.every((fn) => fn(item)));
+	const filteredData = computed(() => {
+		const tree = filterTree.value;
+		if (filters.value.length === 0 && !tree) return data.value;
+
+		return data.value.filter(
+			(item) =>
+				(!tree || evaluateFilter(item, tree)) &&
+				filters.value.every((fn) => fn(item)),
+		);
 	});
 
 	const addFilter = (filterFn: (item: T) => boolean) => {
@@ -30,13 +41,20 @@ export function useFilter<T>(
 
 	const clearFilters = () => {
 		filters.value = [];
+		filterTree.value = null;
+	};
+
+	const setFilterTree = (node: FilterNode<T> | null) => {
+		filterTree.value = node;
 	};
 
 	return {
 		filters,
+		filterTree,
 		filteredData,
 		addFilter,
 		removeFilter,
 		clearFilters,
+		setFilterTree,
 	};
 }
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ref } from "vue";
 import { useInfiniteScroll } from "./useInfiniteScroll";
+import { usePagination } from "./usePagination";
 
 // A simple async sleep function for testing promises
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -77,4 +78,27 @@ describe("useInfiniteScroll", () => {
 			expect.any(Function),
 		);
 	});
+
+	it("should follow hasNextPage from cursor pagination", async () => {
+		const pagination = usePagination({ mode: "cursor" });
+		onLoad = vi.fn(async () => {
+			pagination.nextPage();
+			pagination.setCursors({ nextCursor: null });
+		});
+		const { hasMore, loadMore } = useInfiniteScroll({
+			target,
+			onLoad,
+			hasMore: pagination.hasNextPage,
+		});
+
+		pagination.setCursors({ nextCursor: "c2" });
+		expect(hasMore.value).toBe(true);
+
+		await loadMore();
+		expect(pagination.cursor.value).toBe("c2");
+		expect(hasMore.value).toBe(false);
+
+		await loadMore();
+		expect(onLoad).toHaveBeenCalledOnce();
+	});
 });
@@ -5,13 +5,15 @@ export interface UseInfiniteScrollOptions {
 	target: Ref<HTMLElement | null>;
 	distance?: number;
 	onLoad: () => Promise<void>;
+	/** e.g. `hasNextPage` from a cursor-mode `usePagination` */
+	hasMore?: Ref<boolean>;
 }
 
 export function useInfiniteScroll(options: UseInfiniteScrollOptions) {
 	const { target, distance = 100, onLoad } = options;
 
 	const isLoading = ref(false);
-	const hasMore = ref(true);
+	const hasMore = options.hasMore ?? ref(true);
 
 	const loadMore = async () => {
 		if (isLoading.value || !hasMore.value) return;
@@ -64,4 +64,32 @@ describe("useInlineEdit", () => {
 
 		expect(onSave).not.toHaveBeenCalled();
 	});
+
+	it("should keep editing and expose the error when onSave fails", async () => {
+		const item = ref({ ...initialItem });
+		const failingSave = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("Network error"))
+			.mockResolvedValue(undefined);
+		const { isEditing, isSaving, error, value, startEditing, save } =
+			useInlineEdit(item, "name", failingSave);
+
+		startEditing();
+		value.value = "Alicia";
+		await save();
+
+		expect(isEditing.value).toBe(true);
+		expect(isSaving.value).toBe(false);
+		expect(value.value).toBe("Alicia");
+		expect(error.value?.message).toBe("Network error");
+
+		await save();
+
+		expect(failingSave).toHaveBeenLastCalledWith({
+			...initialItem,
+			name: "Alicia",
+		});
+		expect(isEditing.value).toBe(false);
+		expect(error.value).toBeNull();
+	});
 });
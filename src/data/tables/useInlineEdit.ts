@@ -7,18 +7,22 @@ export function useInlineEdit<T extends Record<string, any>>(
 	onSave: (newItem: T) => Promise<void> | void,
 ) {
 	const isEditing = ref(false);
+	const isSaving = ref(false);
+	const error = ref<Error | null>(null);
 	const value = ref(item.value[key]);
 	const originalValue = ref(item.value[key]);
 
 	const startEditing = () => {
 		originalValue.value = item.value[key];
 		value.value = item.value[key];
+		error.value = null;
 		isEditing.value = true;
 	};
 
 	const cancelEditing = () => {
 		isEditing.value = false;
 		value.value = originalValue.value;
+		error.value = null;
 	};
 
 	const save = async () => {
@@ -28,13 +32,24 @@ export function useInlineEdit<T extends Record<string, any>>(
 		}
 
 		const newItem = { ...item.value, [key]: value.value };
-		await onSave(newItem);
-		isEditing.value = false;
-		originalValue.value = value.value;
+		isSaving.value = true;
+		error.value = null;
+		try {
+			await onSave(newItem);
+			originalValue.value = value.value;
+			isEditing.value = false;
+		} catch (e) {
+			// Stay in edit mode with the entered value, so it can be retried
+			error.value = e instanceof Error ? e : new Error(String(e));
+		} finally {
+			isSaving.value = false;
+		}
 	};
 
 	return {
 		isEditing,
+		isSaving,
+		error,
 		value,
 		startEditing,
 		cancelEditing,
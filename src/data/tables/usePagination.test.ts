@@ -1,5 +1,21 @@
 import { describe, expect, it } from "vitest";
-import { paginateArray, usePagination } from "./usePagination";
+import {
+	getPaginationItems,
+	type PaginationItem,
+	paginateArray,
+	paginateArrayWithMeta,
+	usePagination,
+} from "./usePagination";
+
+// Compact form of a page list, e.g. "1 … 9 [10] 11 … 40"
+const describeItems = (items: PaginationItem[]) =>
+	items
+		.map((item) => {
+			if (item.type === "page") return item.current ? `[${item.n}]` : item.n;
+			if (item.type === "ellipsis") return "…";
+			return item.disabled ? `(${item.type})` : item.type;
+		})
+		.join(" ");
 
 describe("usePagination", () => {
 	it("should initialize with default values", () => {
@@ -186,6 +202,151 @@ describe("usePagination", () => {
 	});
 });
 
+describe("getPaginationItems", () => {
+	it("should add ellipses around the sibling window", () => {
+		const items = getPaginationItems(10, 40, { siblingCount: 2 });
+		expect(describeItems(items)).toBe("prev 1 … 8 9 [10] 11 12 … 40 next");
+	});
+
+	it("should keep a constant length near the boundaries", () => {
+		expect(describeItems(getPaginationItems(1, 20))).toBe(
+			"(prev) [1] 2 3 4 5 … 20 next",
+		);
+		expect(describeItems(getPaginationItems(4, 20))).toBe(
+			"prev 1 2 3 [4] 5 … 20 next",
+		);
+		expect(describeItems(getPaginationItems(5, 20))).toBe(
+			"prev 1 … 4 [5] 6 … 20 next",
+		);
+		expect(describeItems(getPaginationItems(20, 20))).toBe(
+			"prev 1 … 16 17 18 19 [20] (next)",
+		);
+	});
+
+	it("should list every page when they fit", () => {
+		expect(describeItems(getPaginationItems(2, 4))).toBe("prev 1 [2] 3 4 next");
+	});
+
+	it("should support boundary counts and hiding prev/next", () => {
+		const items = getPaginationItems(10, 40, {
+			boundaryCount: 2,
+			showPrevNext: false,
+		});
+		expect(describeItems(items)).toBe("1 2 … 9 [10] 11 … 39 40");
+	});
+});
+
+describe("usePagination page items", () => {
+	it("should follow the current page", () => {
+		const { pageItems, goToPage } = usePagination({
+			totalItems: 400,
+			siblingCount: 2,
+		});
+
+		goToPage(10);
+		expect(describeItems(pageItems.value)).toBe(
+			"prev 1 … 8 9 [10] 11 12 … 40 next",
+		);
+	});
+
+	it("should only offer prev/next in cursor mode", () => {
+		const { pageItems, setCursors } = usePagination({ mode: "cursor" });
+
+		setCursors({ nextCursor: "c2" });
+		expect(describeItems(pageItems.value)).toBe("(prev) next");
+	});
+});
+
+describe("usePagination in cursor mode", () => {
+	it("should derive next/previous availability from tokens", () => {
+		const { hasNextPage, hasPreviousPage, setCursors, pageNumbers } =
+			usePagination({ mode: "cursor" });
+
+		expect(hasNextPage.value).toBe(false);
+		expect(hasPreviousPage.value).toBe(false);
+		expect(pageNumbers.value).toEqual([]);
+
+		setCursors({ nextCursor: "c2" });
+		expect(hasNextPage.value).toBe(true);
+		expect(hasPreviousPage.value).toBe(false);
+	});
+
+	it("should track a cursor stack for back navigation", () => {
+		const {
+			cursor,
+			currentPage,
+			hasPreviousPage,
+			setCursors,
+			nextPage,
+			previousPage,
+			firstPage,
+		} = usePagination({ mode: "cursor" });
+
+		setCursors({ nextCursor: "c2" });
+		nextPage();
+		expect(cursor.value).toBe("c2");
+		expect(currentPage.value).toBe(2);
+
+		// Not advancing again until the next response arrives
+		nextPage();
+		expect(cursor.value).toBe("c2");
+
+		setCursors({ nextCursor: "c3", prevCursor: "p2" });
+		nextPage();
+		expect(cursor.value).toBe("c3");
+
+		previousPage();
+		expect(cursor.value).toBe("c2");
+		previousPage();
+		expect(cursor.value).toBeNull();
+		expect(currentPage.value).toBe(1);
+		expect(hasPreviousPage.value).toBe(false);
+
+		setCursors({ nextCursor: "c2" });
+		nextPage();
+		firstPage();
+		expect(cursor.value).toBeNull();
+		expect(currentPage.value).toBe(1);
+	});
+
+	it("should fall back to the previous token without history", () => {
+		const { cursor, setCursors, hasPreviousPage, previousPage } =
+			usePagination({ mode: "cursor" });
+
+		setCursors({ prevCursor: "p1" });
+		expect(hasPreviousPage.value).toBe(true);
+
+		previousPage();
+		expect(cursor.value).toBe("p1");
+	});
+
+	it("should ignore offset-only navigation", () => {
+		const { currentPage, goToPage, lastPage } = usePagination({
+			mode: "cursor",
+		});
+
+		goToPage(3);
+		lastPage();
+		expect(currentPage.value).toBe(1);
+	});
+
+	it("should derive keyset cursors from page items", () => {
+		const { nextCursor, prevCursor, setPageItems, nextPage } = usePagination({
+			mode: "cursor",
+			getCursor: (item: { id: number }) => String(item.id),
+		});
+
+		setPageItems([{ id: 1 }, { id: 2 }], true);
+		expect(nextCursor.value).toBe("2");
+		expect(prevCursor.value).toBeNull();
+
+		nextPage();
+		setPageItems([{ id: 3 }, { id: 4 }], false);
+		expect(nextCursor.value).toBeNull();
+		expect(prevCursor.value).toBe("3");
+	});
+});
+
 describe("paginateArray", () => {
 	const items = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
 
@@ -215,3 +376,27 @@ describe("paginateArray", () => {
 		expect(result).toEqual(items);
 	});
 });
+
+describe("paginateArrayWithMeta", () => {
+	const items = Array.from({ length: 12 }, (_, i) => i + 1);
+
+	it("should return the slice with metadata", () => {
+		const result = paginateArrayWithMeta(items, 3, 5);
+
+		expect(result.items).toEqual([11, 12]);
+		expect(result.totalPages).toBe(3);
+		expect(result.startIndex).toBe(10);
+		expect(result.endIndex).toBe(12);
+		expect(result.hasNextPage).toBe(false);
+		expect(result.hasPreviousPage).toBe(true);
+		expect(describeItems(result.pageItems)).toBe("prev 1 2 [3] (next)");
+	});
+
+	it("should handle pages beyond the array", () => {
+		const result = paginateArrayWithMeta(items, 10, 5);
+
+		expect(result.items).toEqual([]);
+		expect(result.startIndex).toBe(12);
+		expect(result.endIndex).toBe(12);
+	});
+});
@@ -1,9 +1,109 @@
-import { computed, ref } from "vue";
+import { computed, type Ref, ref } from "vue";
 
 export interface UsePaginationOptions {
 	currentPage?: number;
 	pageSize?: number;
 	totalItems?: number;
+	/**
+	 * `cursor` follows opaque next/previous tokens from the API instead of
+	 * page offsets; the total item count is not required.
+	 */
+	mode?: "offset" | "cursor";
+	/** Derives keyset cursors from the first and last item of a page */
+	getCursor?: (item: any) => string | null;
+	/** Pages shown on each side of the current page in `pageItems` */
+	siblingCount?: number;
+	/** Pages always shown at the start and end in `pageItems` */
+	boundaryCount?: number;
+}
+
+export type PaginationItem =
+	| { type: "page"; n: number; current: boolean }
+	| { type: "ellipsis"; position: "start" | "end" }
+	| { type: "prev" | "next"; disabled: boolean };
+
+export interface PaginationWindowOptions {
+	siblingCount?: number;
+	boundaryCount?: number;
+	showPrevNext?: boolean;
+}
+
+const range = (start: number, end: number) =>
+	Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => start + i);
+
+/**
+ * Builds a page list such as `1 … 8 9 [10] 11 12 … 40`. The list keeps a
+ * constant length while the current page moves, so paginators don't jump.
+ */
+export function getPaginationItems(
+	currentPage: number,
+	totalPages: number,
+	options: PaginationWindowOptions = {},
+): PaginationItem[] {
+	const { siblingCount = 1, boundaryCount = 1, showPrevNext = true } = options;
+	const items: PaginationItem[] = [];
+
+	if (totalPages > 0) {
+		const startPages = range(1, Math.min(boundaryCount, totalPages));
+		const endPages = range(
+			Math.max(totalPages - boundaryCount + 1, boundaryCount + 1),
+			totalPages,
+		);
+
+		const siblingsStart = Math.max(
+			Math.min(
+				currentPage - siblingCount,
+				totalPages - boundaryCount - siblingCount * 2 - 1,
+			),
+			boundaryCount + 2,
+		);
+		const siblingsEnd = Math.min(
+			Math.max(
+				currentPage + siblingCount,
+				boundaryCount + siblingCount * 2 + 2,
+			),
+			(endPages[0] ?? totalPages + 1) - 2,
+		);
+
+		const pages: (number | "start" | "end")[] = [...startPages];
+
+		if (siblingsStart > boundaryCount + 2) {
+			pages.push("start");
+		} else if (boundaryCount + 1 < totalPages - boundaryCount) {
+			pages.push(boundaryCount + 1);
+		}
+
+		pages.push(...range(siblingsStart, siblingsEnd));
+
+		if (siblingsEnd < totalPages - boundaryCount - 1) {
+			pages.push("end");
+		} else if (totalPages - boundaryCount > boundaryCount) {
+			pages.push(totalPages - boundaryCount);
+		}
+
+		pages.push(...endPages);
+
+		pages.forEach((page) => {
+			items.push(
+				typeof page === "number"
+					? { type: "page", n: page, current: page === currentPage }
+					: { type: "ellipsis", position: page },
+			);
+		});
+	}
+
+	if (!showPrevNext) return items;
+
+	return [
+		{ type: "prev", disabled: currentPage <= 1 },
+		...items,
+		{ type: "next", disabled: currentPage >= totalPages },
+	];
+}
+
+export interface CursorPageInfo {
+	nextCursor?: string | null;
+	prevCursor?: string | null;
 }
 
 export function usePagination(options: UsePaginationOptions = {}) {
@@ -11,18 +111,38 @@ export function usePagination(options: UsePaginationOptions = {}) {
 		currentPage: initialPage = 1,
 		pageSize: initialSize = 10,
 		totalItems: initialTotal = 0,
+		mode = "offset",
+		getCursor,
+		siblingCount = 1,
+		boundaryCount = 1,
 	} = options;
 
-	const currentPage = ref(initialPage);
+	const isCursor = mode === "cursor";
+
+	const currentPage = ref(isCursor ? 1 : initialPage);
 	const pageSize = ref(initialSize);
 	const totalItems = ref(initialTotal);
 
+	// Cursor mode
+	const cursor = ref<string | null>(null);
+	const nextCursor = ref<string | null>(null);
+	const prevCursor = ref<string | null>(null);
+	const cursorStack = ref<(string | null)[]>([]) as Ref<(string | null)[]>;
+
 	const totalPages = computed(
 		() => Math.ceil(totalItems.value / pageSize.value) || 1,
 	);
 
-	const hasNextPage = computed(() => currentPage.value < totalPages.value);
-	const hasPreviousPage = computed(() => currentPage.value > 1);
+	const hasNextPage = computed(() =>
+		isCursor
+			? nextCursor.value !== null
+			: currentPage.value < totalPages.value,
+	);
+	const hasPreviousPage = computed(() =>
+		isCursor
+			? cursorStack.value.length > 0 || prevCursor.value !== null
+			: currentPage.value > 1,
+	);
 
 	const startIndex = computed(() => (currentPage.value - 1) * pageSize.value);
 	const endIndex = computed(() =>
@@ -30,7 +150,10 @@ export function usePagination(options: UsePaginationOptions = {}) {
 	);
 
 	const pageNumbers = computed(() => {
-		const pages = [];
+		const pages: number[] = [];
+		// Page numbers need a known total
+		if (isCursor && totalItems.value === 0) return pages;
+
 		const maxVisible = 5;
 		let start = Math.max(1, currentPage.value - Math.floor(maxVisible / 2));
 		const end = Math.min(totalPages.value, start + maxVisible - 1);
@@ -46,37 +169,96 @@ export function usePagination(options: UsePaginationOptions = {}) {
 		return pages;
 	});
 
+	const pageItems = computed<PaginationItem[]>(() => {
+		if (isCursor && totalItems.value === 0) {
+			return [
+				{ type: "prev", disabled: !hasPreviousPage.value },
+				{ type: "next", disabled: !hasNextPage.value },
+			];
+		}
+		return getPaginationItems(currentPage.value, totalPages.value, {
+			siblingCount,
+			boundaryCount,
+		});
+	});
+
 	const goToPage = (page: number) => {
+		if (isCursor) return;
 		if (page >= 1 && page <= totalPages.value) {
 			currentPage.value = page;
 		}
 	};
 
 	const nextPage = () => {
-		if (hasNextPage.value) {
-			currentPage.value++;
+		if (!hasNextPage.value) return;
+
+		if (isCursor) {
+			cursorStack.value = [...cursorStack.value, cursor.value];
+			cursor.value = nextCursor.value;
+			nextCursor.value = null;
+			prevCursor.value = null;
 		}
+		currentPage.value++;
 	};
 
 	const previousPage = () => {
-		if (hasPreviousPage.value) {
-			currentPage.value--;
+		if (!hasPreviousPage.value) return;
+
+		if (isCursor) {
+			if (cursorStack.value.length > 0) {
+				cursor.value = cursorStack.value.at(-1) ?? null;
+				cursorStack.value = cursorStack.value.slice(0, -1);
+			} else {
+				cursor.value = prevCursor.value;
+			}
+			nextCursor.value = null;
+			prevCursor.value = null;
 		}
+		currentPage.value = Math.max(1, currentPage.value - 1);
+	};
+
+	const resetCursors = () => {
+		cursor.value = null;
+		nextCursor.value = null;
+		prevCursor.value = null;
+		cursorStack.value = [];
 	};
 
 	const firstPage = () => {
+		if (isCursor) resetCursors();
 		currentPage.value = 1;
 	};
 
 	const lastPage = () => {
+		if (isCursor) return;
 		currentPage.value = totalPages.value;
 	};
 
 	const setPageSize = (size: number) => {
 		pageSize.value = size;
+		if (isCursor) resetCursors();
 		currentPage.value = 1; // Reset to first page
 	};
 
+	// Call after each cursor-mode fetch with the tokens from the response
+	const setCursors = (info: CursorPageInfo) => {
+		nextCursor.value = info.nextCursor ?? null;
+		prevCursor.value = info.prevCursor ?? null;
+	};
+
+	// Keyset pagination: cursors come from the page's boundary items
+	const setPageItems = (items: unknown[], hasMore: boolean) => {
+		if (!getCursor) return;
+
+		const first = items[0];
+		const last = items.at(-1);
+		setCursors({
+			nextCursor: hasMore && last !== undefined ? getCursor(last) : null,
+			prevCursor:
+				currentPage.value > 1 && first !== undefined ? getCursor(first) : null,
+		});
+	};
+
 	const setTotalItems = (total: number) => {
 		totalItems.value = total;
 		// Adjust current page if necessary
@@ -86,7 +268,8 @@ export function usePagination(options: UsePaginationOptions = {}) {
 	};
 
 	const reset = () => {
-		currentPage.value = initialPage;
+		resetCursors();
+		currentPage.value = isCursor ? 1 : initialPage;
 		pageSize.value = initialSize;
 		totalItems.value = initialTotal;
 	};
@@ -101,6 +284,7 @@ export function usePagination(options: UsePaginationOptions = {}) {
 		startIndex,
 		endIndex,
 		pageNumbers,
+		pageItems,
 		goToPage,
 		nextPage,
 		previousPage,
@@ -109,6 +293,12 @@ export function usePagination(options: UsePaginationOptions = {}) {
 		setPageSize,
 		setTotalItems,
 		reset,
+		cursor,
+		nextCursor,
+		prevCursor,
+		cursorStack,
+		setCursors,
+		setPageItems,
 	};
 }
 
@@ -122,3 +312,42 @@ export function paginateArray<T>(
 	const endIndex = startIndex + pageSize;
 	return array.slice(startIndex, endIndex);
 }
+
+export interface PaginatedArray<T> {
+	items: T[];
+	page: number;
+	pageSize: number;
+	totalItems: number;
+	totalPages: number;
+	startIndex: number;
+	endIndex: number;
+	hasNextPage: boolean;
+	hasPreviousPage: boolean;
+	pageItems: PaginationItem[];
+}
+
+// Like paginateArray, with the metadata a paginator needs
+export function paginateArrayWithMeta<T>(
+	array: T[],
+	page: number,
+	pageSize: number,
+	options: PaginationWindowOptions = {},
+): PaginatedArray<T> {
+	const totalItems = array.length;
+	const totalPages = Math.ceil(totalItems / pageSize) || 1;
+	const startIndex = Math.min((page - 1) * pageSize, totalItems);
+	const endIndex = Math.min(startIndex + pageSize, totalItems);
+
+	return {
+		items: array.slice(startIndex, endIndex),
+		page,
+		pageSize,
+		totalItems,
+		totalPages,
+		startIndex,
+		endIndex,
+		hasNextPage: page < totalPages,
+		hasPreviousPage: page > 1,
+		pageItems: getPaginationItems(page, totalPages, options),
+	};
+}
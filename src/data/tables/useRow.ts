@@ -1,8 +1,16 @@
-import { computed, ref } from "vue";
+import { computed, type Ref, ref } from "vue";
 
-export function useRow<T extends Record<string, any>>(item: T) {
+export interface UseRowOptions {
+	/** External expanded state, e.g. from `useTable().getGroupExpandedRef` */
+	isExpanded?: Ref<boolean>;
+}
+
+export function useRow<T extends Record<string, any>>(
+	item: T,
+	options: UseRowOptions = {},
+) {
 	const isHovered = ref(false);
-	const isExpanded = ref(false);
+	const isExpanded = options.isExpanded ?? ref(false);
 
 	const rowClasses = computed(() => ({
 		hover: isHovered.value,
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { ref } from "vue";
+import { nextTick, ref } from "vue";
 import { useSelection } from "./useSelection";
 
 describe("useSelection", () => {
@@ -69,4 +69,138 @@ describe("useSelection", () => {
 		allSelected.value = false;
 		expect(selected.value.size).toBe(0);
 	});
+
+	describe("range selection", () => {
+		it("should select a range with shift-click", () => {
+			const { toggleSelection, selectedItems } = useSelection(data, "id");
+			toggleSelection(data.value[0]!);
+			toggleSelection(data.value[2]!, { shiftKey: true });
+			expect(selectedItems.value.map((item) => item.id)).toEqual([1, 2, 3]);
+		});
+
+		it("should follow the order of data", () => {
+			const sorted = ref([...data.value].reverse());
+			const { toggleSelection, selected } = useSelection(sorted, "id");
+			toggleSelection(sorted.value[0]!);
+			toggleSelection(sorted.value[1]!, { shiftKey: true });
+			expect([...selected.value]).toEqual([3, 2]);
+		});
+
+		it("should deselect a range when the anchor is deselected", () => {
+			const { selectAll, toggleSelection, selectedItems } = useSelection(
+				data,
+				"id",
+			);
+			selectAll();
+			toggleSelection(data.value[2]!);
+			toggleSelection(data.value[1]!, { shiftKey: true });
+			expect(selectedItems.value.map((item) => item.id)).toEqual([1]);
+		});
+	});
+
+	describe("select all matching", () => {
+		it("should store deselected rows as exclusions", () => {
+			const total = ref(300);
+			const {
+				selectAllMatching,
+				toggleSelection,
+				isSelected,
+				selectedCount,
+				selection,
+			} = useSelection(data, "id", { total });
+
+			selectAllMatching();
+			expect(selectedCount.value).toBe(300);
+			expect(isSelected(data.value[1]!)).toBe(true);
+
+			toggleSelection(data.value[1]!);
+			expect(isSelected(data.value[1]!)).toBe(false);
+			expect(selectedCount.value).toBe(299);
+			expect(selection.value).toEqual({
+				mode: "exclude",
+				keys: [2],
+				total: 299,
+			});
+		});
+
+		it("should apply to rows loaded later", () => {
+			const page = ref([{ id: 1, name: "Alice" }]);
+			const { selectAllMatching, isSelected } = useSelection(page, "id");
+			selectAllMatching();
+			page.value = [{ id: 4, name: "David" }];
+			expect(isSelected(page.value[0]!)).toBe(true);
+		});
+
+		it("should return to include mode when cleared", () => {
+			const { selectAllMatching, clearSelection, selection } = useSelection(
+				data,
+				"id",
+			);
+			selectAllMatching();
+			clearSelection();
+			expect(selection.value).toEqual({ mode: "include", keys: [] });
+		});
+	});
+
+	describe("data changes", () => {
+		it("should keep selected keys by default", async () => {
+			const rows = ref([...data.value]);
+			const { toggleSelection, selected } = useSelection(rows, "id");
+			toggleSelection(rows.value[0]!);
+			rows.value = rows.value.slice(1);
+			await nextTick();
+			expect(selected.value.has(1)).toBe(true);
+		});
+
+		it("should prune missing keys when enabled", async () => {
+			const rows = ref([...data.value]);
+			const { toggleSelection, selected } = useSelection(rows, "id", {
+				prune: true,
+			});
+			toggleSelection(rows.value[0]!);
+			toggleSelection(rows.value[1]!);
+			rows.value = rows.value.slice(1);
+			await nextTick();
+			expect([...selected.value]).toEqual([2]);
+		});
+	});
+
+	describe("keyboard", () => {
+		const keydown = (key: string, init: KeyboardEventInit = {}) =>
+			new KeyboardEvent("keydown", { key, ...init });
+
+		it("should move focus and toggle with space", () => {
+			const { onKeydown, focusedIndex, selectedItems } = useSelection(
+				data,
+				"id",
+			);
+			onKeydown(keydown("ArrowDown"));
+			onKeydown(keydown("ArrowDown"));
+			expect(focusedIndex.value).toBe(1);
+			onKeydown(keydown(" "));
+			expect(selectedItems.value.map((item) => item.id)).toEqual([2]);
+		});
+
+		it("should extend the selection with shift and arrows", () => {
+			const { onKeydown, toggleSelection, selectedItems } = useSelection(
+				data,
+				"id",
+			);
+			toggleSelection(data.value[0]!);
+			onKeydown(keydown("ArrowDown", { shiftKey: true }));
+			onKeydown(keydown("ArrowDown", { shiftKey: true }));
+			expect(selectedItems.value.map((item) => item.id)).toEqual([1, 2, 3]);
+		});
+
+		it("should select all with ctrl+a and clear with escape", () => {
+			const { onKeydown, allSelected, noneSelected } = useSelection(
+				data,
+				"id",
+			);
+			onKeydown(keydown("a", { ctrlKey: true }));
+			expect(allSelected.value).toBe(true);
+			onKeydown(keydown("Escape"));
+			expect(noneSelected.value).toBe(true);
+		});
+	});
 });
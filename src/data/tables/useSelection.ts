@@ -1,15 +1,46 @@
 import type { ComputedRef, Ref } from "vue";
-import { computed, ref } from "vue";
+import { computed, ref, watch } from "vue";
+
+export interface UseSelectionOptions {
+	/**
+	 * Number of rows matching the current query across all pages, used to
+	 * count a "select all matching" selection.
+	 */
+	total?: Ref<number>;
+	/** Drop selected keys that are no longer present in `data` */
+	prune?: boolean;
+}
+
+/**
+ * Serializable selection for bulk actions. In `exclude` mode every
+ * matching row is selected except `keys`, so it works with server data.
+ */
+export type SelectionState<K> =
+	| { mode: "include"; keys: K[] }
+	| { mode: "exclude"; keys: K[]; total: number };
+
+export interface SelectionEvent {
+	shiftKey?: boolean;
+}
 
 export function useSelection<T extends Record<string, any>>(
 	data: Ref<T[]>,
 	key: keyof T,
+	options: UseSelectionOptions = {},
 ) {
+	const { total, prune = false } = options;
+
 	const selected = ref<Set<T[keyof T]>>(new Set()) as Ref<Set<T[keyof T]>>;
+	const excluded = ref<Set<T[keyof T]>>(new Set()) as Ref<Set<T[keyof T]>>;
+	const allMatchingSelected = ref(false);
+
+	// Anchor for shift-click ranges and keyboard focus, both in `data` order
+	const anchorKey = ref<T[keyof T] | null>(null) as Ref<T[keyof T] | null>;
+	const focusedIndex = ref(-1);
 
 	const allSelected = computed({
 		get() {
-			return data.value.length > 0 && selected.value.size === data.value.length;
+			return data.value.length > 0 && data.value.every(isSelected);
 		},
 		set(value: boolean) {
 			if (value) {
@@ -20,48 +51,185 @@ export function useSelection<T extends Record<string, any>>(
 		},
 	});
 
+	const selectedCount: ComputedRef<number> = computed(() => {
+		if (allMatchingSelected.value) {
+			const count = total?.value ?? data.value.length;
+			return Math.max(0, count - excluded.value.size);
+		}
+		return selected.value.size;
+	});
+
 	const noneSelected: ComputedRef<boolean> = computed(() => {
-		return selected.value.size === 0;
+		return selectedCount.value === 0;
 	});
 
 	const someSelected: ComputedRef<boolean> = computed(() => {
 		return !noneSelected.value && !allSelected.value;
 	});
 
+	// Only rows loaded in `data`; use `selection` for cross-page actions
 	const selectedItems: ComputedRef<T[]> = computed(() => {
-		return data.value.filter((item) => selected.value.has(item[key]));
+		return data.value.filter((item) => isSelected(item));
 	});
 
-	function toggleSelection(item: T) {
+	const selection: ComputedRef<SelectionState<T[keyof T]>> = computed(() =>
+		allMatchingSelected.value
+			? {
+					mode: "exclude",
+					keys: [...excluded.value],
+					total: selectedCount.value,
+				}
+			: { mode: "include", keys: [...selected.value] },
+	);
+
+	function setSelected(item: T, value: boolean) {
 		const itemKey = item[key];
-		if (selected.value.has(itemKey)) {
-			selected.value.delete(itemKey);
+		const set = allMatchingSelected.value ? excluded.value : selected.value;
+		// In exclude mode the set holds deselected keys
+		if (value !== allMatchingSelected.value) {
+			set.add(itemKey);
 		} else {
-			selected.value.add(itemKey);
+			set.delete(itemKey);
 		}
 	}
 
+	function selectRange(from: T, to: T, value = true) {
+		const start = data.value.findIndex((item) => item[key] === from[key]);
+		const end = data.value.findIndex((item) => item[key] === to[key]);
+		if (start === -1 || end === -1) return;
+
+		data.value
+			.slice(Math.min(start, end), Math.max(start, end) + 1)
+			.forEach((item) => setSelected(item, value));
+	}
+
+	function toggleSelection(item: T, event?: SelectionEvent) {
+		const anchor = data.value.find((row) => row[key] === anchorKey.value);
+
+		if (event?.shiftKey && anchor) {
+			// Extend with the anchor's state, like file managers do
+			selectRange(anchor, item, isSelected(anchor));
+		} else {
+			setSelected(item, !isSelected(item));
+			anchorKey.value = item[key];
+		}
+		focusedIndex.value = data.value.indexOf(item);
+	}
+
 	function selectAll() {
+		allMatchingSelected.value = false;
+		excluded.value.clear();
 		selected.value = new Set(data.value.map((item) => item[key]));
 	}
 
+	function selectAllMatching() {
+		allMatchingSelected.value = true;
+		excluded.value.clear();
+		selected.value.clear();
+	}
+
 	function clearSelection() {
+		allMatchingSelected.value = false;
+		excluded.value.clear();
 		selected.value.clear();
+		anchorKey.value = null;
 	}
 
 	function isSelected(item: T): boolean {
-		return selected.value.has(item[key]);
+		return allMatchingSelected.value
+			? !excluded.value.has(item[key])
+			: selected.value.has(item[key]);
+	}
+
+	function moveFocus(index: number, extend: boolean) {
+		const count = data.value.length;
+		if (count === 0) return;
+
+		const next = Math.min(Math.max(index, 0), count - 1);
+		focusedIndex.value = next;
+		const item = data.value[next]!;
+
+		if (extend) {
+			const anchor = data.value.find((row) => row[key] === anchorKey.value);
+			if (anchor) {
+				selectRange(anchor, item);
+			} else {
+				setSelected(item, true);
+				anchorKey.value = item[key];
+			}
+		}
+	}
+
+	/**
+	 * Arrow keys move the focused row (with Shift to extend the selection),
+	 * Space toggles it, Ctrl/Cmd+A selects the page and Escape clears.
+	 */
+	function onKeydown(event: KeyboardEvent) {
+		const current = focusedIndex.value;
+
+		switch (event.key) {
+			case "ArrowDown":
+				moveFocus(current + 1, event.shiftKey);
+				break;
+			case "ArrowUp":
+				moveFocus(current === -1 ? 0 : current - 1, event.shiftKey);
+				break;
+			case "Home":
+				moveFocus(0, event.shiftKey);
+				break;
+			case "End":
+				moveFocus(data.value.length - 1, event.shiftKey);
+				break;
+			case " ": {
+				const item = data.value[current];
+				if (!item) return;
+				toggleSelection(item, event);
+				break;
+			}
+			case "a":
+				if (!event.ctrlKey && !event.metaKey) return;
+				selectAll();
+				break;
+			case "Escape":
+				clearSelection();
+				break;
+			default:
+				return;
+		}
+		event.preventDefault();
 	}
 
+	watch(data, (items) => {
+		const keys = new Set(items.map((item) => item[key]));
+
+		if (prune) {
+			selected.value.forEach((itemKey) => {
+				if (!keys.has(itemKey)) selected.value.delete(itemKey);
+			});
+		}
+		if (anchorKey.value !== null && !keys.has(anchorKey.value)) {
+			anchorKey.value = null;
+		}
+		focusedIndex.value = Math.min(focusedIndex.value, items.length - 1);
+	});
+
 	return {
 		selected,
+		excluded,
 		selectedItems,
+		selectedCount,
+		selection,
 		allSelected,
+		allMatchingSelected,
 		noneSelected,
 		someSelected,
+		focusedIndex,
 		toggleSelection,
+		selectRange,
 		selectAll,
+		selectAllMatching,
 		clearSelection,
 		isSelected,
+		onKeydown,
 	};
 }
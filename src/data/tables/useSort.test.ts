@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { ref } from "vue";
-import { useSort } from "./useSort";
+import { compareDates, getValueByPath, sortRows, useSort } from "./useSort";
 
 describe("useSort", () => {
 	const data = ref([
@@ -42,6 +42,16 @@ describe("useSort", () => {
 		expect(sortedData.value[0]?.name).toBe("Alice");
 	});
 
+	it("should keep an order set before the key", () => {
+		const { sortedData, sortKey, sortOrder } = useSort(data);
+		sortOrder.value = "desc";
+		expect(sortOrder.value).toBe("desc");
+
+		sortKey.value = "name";
+		expect(sortOrder.value).toBe("desc");
+		expect(sortedData.value[0]?.name).toBe("Charlie");
+	});
+
 	it("should work with initial sorter", () => {
 		const { sortedData } = useSort(data, { key: "id", order: "desc" });
 		expect(sortedData.value).toEqual([
@@ -50,4 +60,93 @@ describe("useSort", () => {
 			{ id: 1, name: "Alice" },
 		]);
 	});
+
+	it("should sort by multiple keys in order", () => {
+		const bookings = ref([
+			{ checkIn: "2024-03-02", guest: { lastName: "Zimmer" } },
+			{ checkIn: "2024-03-01", guest: { lastName: "Young" } },
+			{ checkIn: "2024-03-02", guest: { lastName: "Adams" } },
+		]);
+		const { sortedData, sortBy, sortState } = useSort(bookings);
+
+		sortBy("checkIn");
+		sortBy("guest.lastName", true);
+
+		expect(sortState.value).toEqual([
+			{ key: "checkIn", order: "asc" },
+			{ key: "guest.lastName", order: "asc" },
+		]);
+		expect(sortedData.value.map((b) => b.guest.lastName)).toEqual([
+			"Young",
+			"Adams",
+			"Zimmer",
+		]);
+	});
+
+	it("should cycle a multi-sort key through asc, desc and removed", () => {
+		const { sortBy, sortState, getSortIndex } = useSort(data);
+
+		sortBy("id");
+		sortBy("name", true);
+		expect(getSortIndex("name")).toBe(1);
+
+		sortBy("name", true);
+		expect(sortState.value[1]).toEqual({ key: "name", order: "desc" });
+
+		sortBy("name", true);
+		expect(sortState.value).toEqual([{ key: "id", order: "asc" }]);
+		expect(getSortIndex("name")).toBe(-1);
+	});
+
+	it("should use custom comparators", () => {
+		const stays = ref([
+			{ id: 1, checkIn: "March 5, 2024" },
+			{ id: 2, checkIn: "February 20, 2024" },
+			{ id: 3, checkIn: "April 1, 2024" },
+		]);
+		const { sortedData, sortBy } = useSort(stays, undefined, {
+			comparators: { checkIn: compareDates },
+		});
+
+		sortBy("checkIn");
+		expect(sortedData.value.map((s) => s.id)).toEqual([2, 1, 3]);
+	});
+
+	it("should compare strings with the collator", () => {
+		const names = ref([{ name: "émile" }, { name: "Zoe" }, { name: "adam" }]);
+		const { sortedData } = useSort(names, { key: "name", order: "asc" });
+
+		expect(sortedData.value.map((n) => n.name)).toEqual([
+			"adam",
+			"émile",
+			"Zoe",
+		]);
+	});
+});
+
+describe("sortRows", () => {
+	it("should keep empty values last in both directions", () => {
+		const rows = [{ v: null }, { v: 2 }, { v: 1 }];
+
+		expect(sortRows(rows, [{ key: "v", order: "asc" }])).toEqual([
+			{ v: 1 },
+			{ v: 2 },
+			{ v: null },
+		]);
+		expect(sortRows(rows, [{ key: "v", order: "desc" }])).toEqual([
+			{ v: 2 },
+			{ v: 1 },
+			{ v: null },
+		]);
+	});
+});
+
+describe("getValueByPath", () => {
+	it("should resolve nested and direct keys", () => {
+		const row = { guest: { name: { last: "Doe" } }, "a.b": 1 };
+
+		expect(getValueByPath(row, "guest.name.last")).toBe("Doe");
+		expect(getValueByPath(row, "a.b")).toBe(1);
+		expect(getValueByPath(row, "guest.missing.last")).toBeUndefined();
+	});
 });
@@ -1,55 +1,210 @@
 import type { Ref } from "vue";
 import { computed, ref } from "vue";
 
-type SortOrder = "asc" | "desc";
+export type SortOrder = "asc" | "desc";
 
-interface Sorter<T> {
-	key: keyof T;
+/**
+ * A column key or a dot path into nested values, e.g. `guest.lastName`.
+ */
+export type SortKey<T> = keyof T | (string & {});
+
+export interface Sorter<T> {
+	key: SortKey<T>;
 	order: SortOrder;
 }
 
+export type SortComparator<T = any> = (
+	a: any,
+	b: any,
+	rowA: T,
+	rowB: T,
+) => number;
+
+export interface SortRule<T> extends Sorter<T> {
+	path?: string | undefined;
+	comparator?: SortComparator<T> | undefined;
+}
+
+export interface UseSortOptions<T> {
+	comparators?: Partial<Record<string, SortComparator<T>>>;
+	collator?: Intl.Collator;
+}
+
+export const defaultCollator = new Intl.Collator(undefined, {
+	numeric: true,
+	sensitivity: "base",
+});
+
+export function getValueByPath(item: unknown, path: string): any {
+	if (item === null || item === undefined) return undefined;
+
+	const direct = (item as Record<string, any>)[path];
+	if (direct !== undefined || !path.includes(".")) return direct;
+
+	return path
+		.split(".")
+		.reduce<any>(
+			(value, segment) =>
+				value === null || value === undefined ? undefined : value[segment],
+			item,
+		);
+}
+
+export function compareValues(
+	a: any,
+	b: any,
+	collator: Intl.Collator = defaultCollator,
+): number {
+	if (a instanceof Date && b instanceof Date) {
+		return a.getTime() - b.getTime();
+	}
+	if (typeof a === "number" && typeof b === "number") {
+		return a - b;
+	}
+	if (typeof a === "string" && typeof b === "string") {
+		return collator.compare(a, b);
+	}
+	if (a < b) return -1;
+	if (a > b) return 1;
+	return 0;
+}
+
+// Comparator for dates stored as strings or timestamps
+export const compareDates: SortComparator = (a, b) => {
+	const timeA = a instanceof Date ? a.getTime() : new Date(a).getTime();
+	const timeB = b instanceof Date ? b.getTime() : new Date(b).getTime();
+	if (Number.isNaN(timeA)) return Number.isNaN(timeB) ? 0 : 1;
+	if (Number.isNaN(timeB)) return -1;
+	return timeA - timeB;
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined;
+
+/**
+ * Sorts rows by an ordered list of rules. Empty values always sort last.
+ */
+export function sortRows<T>(
+	rows: T[],
+	rules: SortRule<T>[],
+	collator: Intl.Collator = defaultCollator,
+): T[] {
+	if (rules.length === 0) return rows;
+
+	return [...rows].sort((rowA, rowB) => {
+		for (const rule of rules) {
+			const path = rule.path ?? String(rule.key);
+			const valueA = getValueByPath(rowA, path);
+			const valueB = getValueByPath(rowB, path);
+
+			if (isEmpty(valueA) && isEmpty(valueB)) continue;
+			if (isEmpty(valueA)) return 1;
+			if (isEmpty(valueB)) return -1;
+
+			const comparison = rule.comparator
+				? rule.comparator(valueA, valueB, rowA, rowB)
+				: compareValues(valueA, valueB, collator);
+
+			if (comparison !== 0) {
+				return rule.order === "desc" ? -comparison : comparison;
+			}
+		}
+		return 0;
+	});
+}
+
+/**
+ * Toggles a key in a sort list. A plain toggle replaces the list; a
+ * `multiple` toggle (shift-click) cycles the key asc → desc → removed.
+ */
+export function toggleSorter<T>(
+	sorters: Sorter<T>[],
+	key: SortKey<T>,
+	multiple = false,
+): Sorter<T>[] {
+	const existing = sorters.find((sorter) => sorter.key === key);
+
+	if (!multiple) {
+		if (existing && sorters.length === 1) {
+			return [{ key, order: existing.order === "asc" ? "desc" : "asc" }];
+		}
+		return [{ key, order: "asc" }];
+	}
+
+	if (!existing) {
+		return [...sorters, { key, order: "asc" }];
+	}
+	if (existing.order === "asc") {
+		return sorters.map((sorter) =>
+			sorter.key === key ? { key, order: "desc" } : sorter,
+		);
+	}
+	return sorters.filter((sorter) => sorter.key !== key);
+}
+
 export function useSort<T extends Record<string, any>>(
 	data: Ref<T[]>,
-	initialSorter?: Sorter<T>,
+	initialSorter?: Sorter<T> | Sorter<T>[],
+	options: UseSortOptions<T> = {},
 ) {
-	const sortKey = ref(initialSorter?.key);
-	const sortOrder = ref<SortOrder>(initialSorter?.order || "asc");
+	const { comparators = {}, collator = defaultCollator } = options;
 
-	const sortedData = computed(() => {
-		if (!sortKey.value) {
-			return data.value;
-		}
+	const sortState = ref<Sorter<T>[]>(
+		Array.isArray(initialSorter)
+			? [...initialSorter]
+			: initialSorter
+				? [initialSorter]
+				: [],
+	) as Ref<Sorter<T>[]>;
 
-		const key = sortKey.value;
-		const order = sortOrder.value;
+	const sortKey = computed<SortKey<T> | undefined>({
+		get: () => sortState.value[0]?.key,
+		set: (key) => {
+			sortState.value =
+				key === undefined ? [] : [{ key, order: sortOrder.value }];
+		},
+	});
 
-		return [...data.value].sort((a, b) => {
-			const valueA = a[key];
-			const valueB = b[key];
+	// An order set before any key is kept for the key set next
+	const pendingOrder = ref<SortOrder>("asc");
 
-			if (valueA < valueB) {
-				return order === "asc" ? -1 : 1;
-			}
-			if (valueA > valueB) {
-				return order === "asc" ? 1 : -1;
+	const sortOrder = computed<SortOrder>({
+		get: () => sortState.value[0]?.order ?? pendingOrder.value,
+		set: (order) => {
+			pendingOrder.value = order;
+			const [primary, ...rest] = sortState.value;
+			if (primary) {
+				sortState.value = [{ ...primary, order }, ...rest];
 			}
-			return 0;
-		});
+		},
 	});
 
-	function sortBy(key: keyof T) {
-		if (sortKey.value === key) {
-			sortOrder.value = sortOrder.value === "asc" ? "desc" : "asc";
-		} else {
-			sortKey.value = key;
-			sortOrder.value = "asc";
-		}
+	const sortedData = computed(() => {
+		const rules = sortState.value.map((sorter) => ({
+			...sorter,
+			comparator: comparators[String(sorter.key)],
+		}));
+		return sortRows(data.value, rules, collator);
+	});
+
+	function sortBy(key: SortKey<T>, multiple = false) {
+		sortState.value = toggleSorter(sortState.value, key, multiple);
+	}
+
+	function clearSort() {
+		sortState.value = [];
+	}
+
+	function getSortIndex(key: SortKey<T>) {
+		return sortState.value.findIndex((sorter) => sorter.key === key);
 	}
 
 	return {
 		sortKey,
 		sortOrder,
+		sortState,
 		sortedData,
 		sortBy,
+		clearSort,
+		getSortIndex,
 	};
 }
@@ -1,5 +1,9 @@
-import { describe, expect, it } from "vitest";
-import { useTable } from "./useTable";
+import { describe, expect, it, vi } from "vitest";
+import { nextTick } from "vue";
+import { and, not, where } from "../filters/filterTree";
+import { useRow } from "./useRow";
+import { compareDates } from "./useSort";
+import { type TableQuery, useTable } from "./useTable";
 
 interface TestData {
 	id: number;
@@ -53,6 +57,16 @@ describe("useTable", () => {
 		expect(table.sortedData.value[0]?.name).toBe("John");
 	});
 
+	it("should keep a sort order set before the column", () => {
+		const table = useTable({ data: testData, columns });
+
+		table.sortOrder.value = "desc";
+		table.sortBy.value = "name";
+
+		expect(table.sortOrder.value).toBe("desc");
+		expect(table.sortedData.value[0]?.name).toBe("John");
+	});
+
 	it("should filter data", () => {
 		const table = useTable({ data: testData, columns });
 
@@ -216,4 +230,358 @@ describe("useTable", () => {
 		expect(table.filteredData.value).toHaveLength(1);
 		expect(table.filteredData.value[0]?.city).toBe("New York");
 	});
+
+	it("should sort by multiple columns with shift toggling", () => {
+		const table = useTable({
+			data: [
+				{ id: 1, name: "Bea", age: 30, city: "Paris" },
+				{ id: 2, name: "Al", age: 25, city: "Paris" },
+				{ id: 3, name: "Cy", age: 30, city: "Oslo" },
+			],
+			columns,
+		});
+
+		table.setSort("age", true);
+		table.setSort("name", true);
+		table.setSort("name", true);
+
+		expect(table.sortBy.value).toBe("age");
+		expect(table.getSortIndex("name")).toBe(1);
+		expect(table.getSortDirection("name")).toBe("desc");
+		expect(table.sortedData.value.map((row) => row.id)).toEqual([2, 3, 1]);
+
+		table.setSort("city");
+		expect(table.sortState.value).toEqual([{ key: "city", order: "asc" }]);
+	});
+
+	it("should sort nested fields with column comparators", () => {
+		interface Booking {
+			id: number;
+			checkIn: string;
+			guest: { lastName: string };
+		}
+		const table = useTable<Booking>({
+			data: [
+				{ id: 1, checkIn: "03/10/2024", guest: { lastName: "Young" } },
+				{ id: 2, checkIn: "01/15/2024", guest: { lastName: "Baker" } },
+				{ id: 3, checkIn: "03/10/2024", guest: { lastName: "Adams" } },
+			],
+			columns: [
+				{ key: "checkIn", label: "Check-in", comparator: compareDates },
+				{ key: "guest", label: "Guest", path: "guest.lastName" },
+			],
+			initialSort: [
+				{ key: "checkIn", order: "asc" },
+				{ key: "guest", order: "asc" },
+			],
+		});
+
+		expect(table.sortedData.value.map((row) => row.id)).toEqual([2, 3, 1]);
+		expect(
+			table.getCellValue(table.sortedData.value[0]!, table.columns[1]!),
+		).toBe("Baker");
+	});
+
+	it("should apply a filter tree", () => {
+		const table = useTable({ data: testData, columns, initialPageSize: 2 });
+		table.nextPage();
+
+		table.setFilterTree(
+			and(
+				where("age", "between", [28, 35]),
+				not(where("city", "equals", "Paris")),
+			),
+		);
+		expect(table.currentPage.value).toBe(1);
+		expect(table.filteredData.value.map((row) => row.id)).toEqual([2, 4, 5]);
+
+		table.clearAllFilters();
+		expect(table.filterTree.value).toBeNull();
+		expect(table.filteredData.value).toHaveLength(5);
+	});
+
+	describe("server mode", () => {
+		const flush = async () => {
+			await nextTick();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		};
+
+		it("should load rows and total from the provider", async () => {
+			const provider = vi.fn(async (_query: TableQuery<TestData>) => ({
+				rows: testData.slice(0, 2),
+				total: 42,
+			}));
+			const table = useTable({ columns, provider, initialPageSize: 2 });
+
+			expect(table.isLoading.value).toBe(true);
+			await flush();
+
+			expect(provider).toHaveBeenCalledTimes(1);
+			expect(table.data.value).toEqual(testData.slice(0, 2));
+			expect(table.totalItems.value).toBe(42);
+			expect(table.totalPages.value).toBe(21);
+			expect(table.isLoading.value).toBe(false);
+		});
+
+		it("should pass the current query to the provider", async () => {
+			const provider = vi.fn(async (_query: TableQuery<TestData>) => ({
+				rows: [],
+				total: 100,
+			}));
+			const table = useTable({ columns, provider });
+			await flush();
+
+			table.setSearch("jo");
+			table.setFilter("city", "London");
+			table.setSort("age");
+			await flush();
+
+			const query = provider.mock.lastCall![0];
+			expect(query.searchQuery).toBe("jo");
+			expect(query.filters).toEqual({ city: "London" });
+			expect(query.sortBy).toBe("age");
+			expect(query.sortOrder).toBe("asc");
+			expect(query.sort).toEqual([{ key: "age", order: "asc" }]);
+			expect(query.page).toBe(1);
+			expect(query.pageSize).toBe(10);
+			expect(provider).toHaveBeenCalledTimes(2);
+
+			table.nextPage();
+			await flush();
+			expect(provider.mock.lastCall![0].page).toBe(2);
+		});
+
+		it("should cancel stale requests", async () => {
+			const signals: AbortSignal[] = [];
+			const resolvers: Array<() => void> = [];
+			const provider = (query: TableQuery<TestData>) => {
+				signals.push(query.signal);
+				const page = query.page;
+				return new Promise<{ rows: TestData[]; total: number }>((resolve) => {
+					resolvers.push(() =>
+						resolve({ rows: [testData[page - 1]!], total: 5 }),
+					);
+				});
+			};
+			const table = useTable({ columns, provider, initialPageSize: 1 });
+			await flush();
+			resolvers[0]!();
+			await flush();
+
+			table.setPage(2);
+			await flush();
+			table.setPage(3);
+			await flush();
+
+			expect(signals[1]!.aborted).toBe(true);
+			resolvers[2]!();
+			resolvers[1]!();
+			await flush();
+
+			expect(table.data.value[0]?.name).toBe("Bob");
+			expect(table.isLoading.value).toBe(false);
+		});
+
+		it("should go to a page set before the first load", async () => {
+			const provider = vi.fn(async (_query: TableQuery<TestData>) => ({
+				rows: [],
+				total: 100,
+			}));
+			const table = useTable({ columns, provider });
+
+			table.setPage(3);
+			await flush();
+
+			expect(table.currentPage.value).toBe(3);
+			expect(provider.mock.lastCall![0].page).toBe(3);
+		});
+
+		it("should take totals from the provider", async () => {
+			const provider = vi.fn(async () => ({
+				rows: testData.slice(0, 2),
+				total: 5,
+				totals: { age: 150 },
+			}));
+			const table = useTable({
+				columns: [
+					...columns,
+					{ key: "age" as const, label: "Age", aggregate: "sum" as const },
+				],
+				provider,
+				initialPageSize: 2,
+			});
+			await flush();
+
+			expect(table.totals.value).toEqual({ age: 150 });
+		});
+
+		it("should expose provider errors", async () => {
+			const provider = vi.fn(async () => {
+				throw new Error("Server unavailable");
+			});
+			const table = useTable({ columns, provider });
+			await flush();
+
+			expect(table.error.value?.message).toBe("Server unavailable");
+			expect(table.isLoading.value).toBe(false);
+			expect(table.data.value).toEqual([]);
+		});
+	});
+
+	describe("grouping", () => {
+		interface Booking {
+			id: number;
+			property: string;
+			status: string;
+			revenue: number;
+			nights: number;
+		}
+
+		const bookings: Booking[] = [
+			{ id: 1, property: "Villa", status: "paid", revenue: 300, nights: 3 },
+			{ id: 2, property: "Loft", status: "paid", revenue: 200, nights: 2 },
+			{ id: 3, property: "Villa", status: "open", revenue: 500, nights: 5 },
+			{ id: 4, property: "Loft", status: "paid", revenue: 100, nights: 1 },
+		];
+
+		const bookingColumns = [
+			{ key: "id" as const, label: "ID", aggregate: "count" as const },
+			{ key: "property" as const, label: "Property" },
+			{ key: "revenue" as const, label: "Revenue", aggregate: "sum" as const },
+			{ key: "nights" as const, label: "Nights", aggregate: "avg" as const },
+		];
+
+		it("should group rows with per-group aggregates", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: ["property"],
+			});
+
+			const [villa, loft] = table.groups.value;
+			expect(villa?.value).toBe("Villa");
+			expect(villa?.rows.map((row) => row.id)).toEqual([1, 3]);
+			expect(villa?.aggregates).toEqual({ id: 2, revenue: 800, nights: 4 });
+			expect(loft?.aggregates).toEqual({ id: 2, revenue: 300, nights: 1.5 });
+			expect(table.totals.value).toEqual({
+				id: 4,
+				revenue: 1100,
+				nights: 2.75,
+			});
+		});
+
+		it("should flatten groups into header, row and footer rows", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: ["property"],
+			});
+
+			expect(table.groupedRows.value.map((row) => row.type)).toEqual([
+				"group",
+				"row",
+				"row",
+				"footer",
+				"group",
+				"row",
+				"row",
+				"footer",
+			]);
+		});
+
+		it("should support nested groups and derived group values", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: [
+					"property",
+					{ key: "status", getValue: (row) => row.status.toUpperCase() },
+				],
+			});
+
+			const villa = table.groups.value[0];
+			expect(villa?.children.map((group) => group.value)).toEqual([
+				"PAID",
+				"OPEN",
+			]);
+			expect(villa?.children[0]?.depth).toBe(1);
+			expect(villa?.children[0]?.id).toBe('["Villa","PAID"]');
+		});
+
+		it("should keep missing and null group values apart", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: [
+					{
+						key: "status",
+						getValue: (row) => (row.status === "paid" ? null : undefined),
+					},
+				],
+			});
+
+			expect(table.groups.value.map((group) => group.id)).toEqual([
+				"[null]",
+				"[undefined]",
+			]);
+		});
+
+		it("should collapse and expand groups", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: ["property"],
+			});
+			const villaId = table.groups.value[0]!.id;
+
+			table.toggleGroup(villaId);
+			expect(table.isGroupExpanded(villaId)).toBe(false);
+			expect(table.groupedRows.value.map((row) => row.type)).toEqual([
+				"group",
+				"group",
+				"row",
+				"row",
+				"footer",
+			]);
+
+			table.collapseAllGroups();
+			expect(table.groupedRows.value).toHaveLength(2);
+
+			table.expandAllGroups();
+			expect(table.groupedRows.value).toHaveLength(8);
+		});
+
+		it("should share expanded state with useRow", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+				groupBy: ["property"],
+				defaultExpanded: false,
+			});
+			const group = table.groups.value[0]!;
+			const row = useRow(group, {
+				isExpanded: table.getGroupExpandedRef(group.id),
+			});
+
+			expect(row.isExpanded.value).toBe(false);
+			row.toggleExpand();
+			expect(table.isGroupExpanded(group.id)).toBe(true);
+			expect(row.rowClasses.value.expanded).toBe(true);
+		});
+
+		it("should regroup with setGroupBy and follow filtering", () => {
+			const table = useTable<Booking>({
+				data: bookings,
+				columns: bookingColumns,
+			});
+			expect(table.groups.value).toEqual([]);
+
+			table.setGroupBy(["status"]);
+			table.setFilter("property", "Loft");
+			expect(table.groups.value.map((group) => group.value)).toEqual([
+				"paid",
+			]);
+			expect(table.totals.value["revenue"]).toBe(300);
+		});
+	});
 });
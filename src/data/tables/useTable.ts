@@ -1,4 +1,22 @@
-import { computed, ref } from "vue";
+import { computed, type Ref, ref, watch } from "vue";
+import { evaluateFilter, type FilterNode } from "../filters/filterTree";
+import {
+	type ColumnAggregate,
+	computeAggregates,
+	flattenGroups,
+	type GroupBy,
+	groupRows,
+} from "./grouping";
+import {
+	defaultCollator,
+	getValueByPath,
+	type SortComparator,
+	type SortKey,
+	type SortOrder,
+	type Sorter,
+	sortRows,
+	toggleSorter,
+} from "./useSort";
 
 export interface TableColumn<T = any> {
 	key: keyof T;
@@ -6,59 +24,199 @@ export interface TableColumn<T = any> {
 	sortable?: boolean;
 	filterable?: boolean;
 	width?: string;
+	minWidth?: number;
+	maxWidth?: number;
+	hidden?: boolean;
+	pinned?: "left" | "right";
+	/** Dot path to a nested value, e.g. `guest.lastName` */
+	path?: string;
+	comparator?: SortComparator<T>;
 	render?: (value: any, row: T) => any;
+	/** Summarises the column in group and grand-total footers */
+	aggregate?: ColumnAggregate<T>;
 }
 
+export interface TableQuery<T> {
+	searchQuery: string;
+	filters: Record<string, any>;
+	filterTree: FilterNode<T> | null;
+	sortBy: keyof T | undefined;
+	sortOrder: SortOrder;
+	sort: Sorter<T>[];
+	page: number;
+	pageSize: number;
+	signal: AbortSignal;
+}
+
+export interface TableProviderResult<T> {
+	rows: T[];
+	total: number;
+	/** Grand totals by column key, as only the server sees every row */
+	totals?: Record<string, unknown>;
+}
+
+export type TableDataProvider<T> = (
+	query: TableQuery<T>,
+) => Promise<TableProviderResult<T>>;
+
 export interface UseTableOptions<T> {
-	data: T[];
+	data?: T[];
+	/**
+	 * Switches the table to server mode: search, filtering, sorting and
+	 * pagination are delegated to the provider instead of done in memory.
+	 * Groups then cover the loaded page only, and `totals` come from the
+	 * provider.
+	 */
+	provider?: TableDataProvider<T>;
 	columns: TableColumn<T>[];
 	initialSortBy?: keyof T;
-	initialSortOrder?: "asc" | "desc";
+	initialSortOrder?: SortOrder;
+	initialSort?: Sorter<T>[];
+	initialFilterTree?: FilterNode<T>;
 	initialPage?: number;
 	initialPageSize?: number;
 	searchable?: boolean;
 	searchFields?: (keyof T)[];
+	collator?: Intl.Collator;
+	groupBy?: GroupBy<T>[];
+	/** Whether groups start expanded */
+	defaultExpanded?: boolean;
 }
 
 export function useTable<T extends Record<string, any>>(
 	options: UseTableOptions<T>,
 ) {
 	const {
-		data,
+		data = [],
+		provider,
 		columns,
 		initialSortBy,
 		initialSortOrder = "asc",
+		initialSort,
+		initialFilterTree,
 		initialPage = 1,
 		initialPageSize = 10,
 		searchable = true,
 		searchFields = [],
+		collator = defaultCollator,
+		defaultExpanded = true,
 	} = options;
 
 	// Search
 	const searchQuery = ref("");
-	const allSearchFields =
-		searchFields.length > 0 ? searchFields : columns.map((col) => col.key);
+	const allSearchFields: SortKey<T>[] =
+		searchFields.length > 0
+			? searchFields
+			: columns.map((col) => col.path ?? col.key);
 
 	// Sorting
-	const sortBy = ref<keyof T | undefined>(initialSortBy);
-	const sortOrder = ref<"asc" | "desc">(initialSortOrder);
+	const sortState = ref<Sorter<T>[]>(
+		initialSort
+			? [...initialSort]
+			: initialSortBy !== undefined
+				? [{ key: initialSortBy, order: initialSortOrder }]
+				: [],
+	) as Ref<Sorter<T>[]>;
+
+	const sortBy = computed<keyof T | undefined>({
+		get: () => sortState.value[0]?.key as keyof T | undefined,
+		set: (key) => {
+			sortState.value =
+				key === undefined ? [] : [{ key, order: sortOrder.value }];
+		},
+	});
+
+	// An order set before any key is kept for the key set next
+	const pendingOrder = ref<SortOrder>(initialSortOrder);
+
+	const sortOrder = computed<SortOrder>({
+		get: () => sortState.value[0]?.order ?? pendingOrder.value,
+		set: (order) => {
+			pendingOrder.value = order;
+			const [primary, ...rest] = sortState.value;
+			if (primary) {
+				sortState.value = [{ ...primary, order }, ...rest];
+			}
+		},
+	});
 
 	// Filtering
 	const filters = ref<Record<string, any>>({});
+	const filterTree = ref<FilterNode<T> | null>(
+		initialFilterTree ?? null,
+	) as Ref<FilterNode<T> | null>;
 
 	// Pagination
 	const currentPage = ref(initialPage);
 	const pageSize = ref(initialPageSize);
 
+	// Server mode
+	const isServer = provider !== undefined;
+	const serverRows = ref<T[]>([]) as Ref<T[]>;
+	const serverTotal = ref(0);
+	const serverTotals = ref<Record<string, unknown>>({});
+	const hasLoaded = ref(false);
+	const isLoading = ref(false);
+	const error = ref<Error | null>(null);
+
+	let controller: AbortController | undefined;
+
+	const refresh = async () => {
+		if (!provider) return;
+
+		controller?.abort(); // Cancel the stale request
+		const current = new AbortController();
+		controller = current;
+		isLoading.value = true;
+		error.value = null;
+
+		try {
+			const result = await provider({
+				searchQuery: searchQuery.value,
+				filters: { ...filters.value },
+				filterTree: filterTree.value,
+				sortBy: sortBy.value,
+				sortOrder: sortOrder.value,
+				sort: sortState.value.map((sorter) => ({ ...sorter })),
+				page: currentPage.value,
+				pageSize: pageSize.value,
+				signal: current.signal,
+			});
+			if (current.signal.aborted) return;
+
+			serverRows.value = result.rows;
+			serverTotal.value = result.total;
+			serverTotals.value = result.totals ?? {};
+			hasLoaded.value = true;
+		} catch (e: any) {
+			if (current.signal.aborted || e?.name === "AbortError") return;
+			error.value = e instanceof Error ? e : new Error(String(e));
+		} finally {
+			if (controller === current) {
+				isLoading.value = false;
+			}
+		}
+	};
+
+	if (isServer) {
+		watch(
+			[searchQuery, filters, filterTree, sortState, currentPage, pageSize],
+			refresh,
+			{ deep: true, immediate: true },
+		);
+	}
+
 	// Computed filtered and sorted data
 	const filteredData = computed(() => {
+		if (isServer) return serverRows.value;
+
 		let result = [...data];
 
 		// Apply search
 		if (searchQuery.value.trim()) {
 			result = result.filter((row) => {
 				return allSearchFields.some((field) => {
-					const value = row[field];
+					const value = getValueByPath(row, String(field));
 					return (
 						value &&
 						String(value)
@@ -88,29 +246,33 @@ export function useTable<T extends Record<string, any>>(
 			}
 		});
 
+		// Apply filter tree
+		const tree = filterTree.value;
+		if (tree) {
+			result = result.filter((row) => evaluateFilter(row, tree));
+		}
+
 		return result;
 	});
 
 	const sortedData = computed(() => {
-		if (!sortBy.value) return filteredData.value;
-
-		return [...filteredData.value].sort((a, b) => {
-			const aValue = a[sortBy.value];
-			const bValue = b[sortBy.value];
-
-			if (aValue === null || aValue === undefined) return 1;
-			if (bValue === null || bValue === undefined) return -1;
-
-			let comparison = 0;
-			if (aValue < bValue) comparison = -1;
-			if (aValue > bValue) comparison = 1;
-
-			return sortOrder.value === "desc" ? -comparison : comparison;
+		if (isServer) return filteredData.value;
+
+		const rules = sortState.value.map((sorter) => {
+			const column = columns.find((col) => col.key === sorter.key);
+			return {
+				...sorter,
+				path: column?.path,
+				comparator: column?.comparator,
+			};
 		});
+		return sortRows(filteredData.value, rules, collator);
 	});
 
 	// Pagination
-	const totalItems = computed(() => sortedData.value.length);
+	const totalItems = computed(() =>
+		isServer ? serverTotal.value : sortedData.value.length,
+	);
 	const totalPages = computed(() =>
 		Math.ceil(totalItems.value / pageSize.value),
 	);
@@ -120,17 +282,45 @@ export function useTable<T extends Record<string, any>>(
 	);
 
 	const paginatedData = computed(() => {
+		if (isServer) return serverRows.value;
 		return sortedData.value.slice(startIndex.value, endIndex.value);
 	});
 
+	// Grouping
+	const groupBy = ref<GroupBy<T>[]>(options.groupBy ?? []) as Ref<
+		GroupBy<T>[]
+	>;
+	const expandedGroups = ref<Record<string, boolean>>({});
+	const allExpanded = ref(defaultExpanded);
+	const hasAggregates = columns.some((col) => col.aggregate !== undefined);
+
+	// Groups span all filtered rows, not just the current page; in server
+	// mode only the page is loaded
+	const groups = computed(() =>
+		groupRows(sortedData.value, groupBy.value, columns),
+	);
+
+	const isGroupExpanded = (id: string) =>
+		expandedGroups.value[id] ?? allExpanded.value;
+
+	const groupedRows = computed(() =>
+		flattenGroups(groups.value, isGroupExpanded, hasAggregates),
+	);
+
+	const totals = computed(() =>
+		isServer
+			? serverTotals.value
+			: computeAggregates(sortedData.value, columns),
+	);
+
 	// Actions
-	const setSort = (key: keyof T) => {
-		if (sortBy.value === key) {
-			sortOrder.value = sortOrder.value === "asc" ? "desc" : "asc";
-		} else {
-			sortBy.value = key;
-			sortOrder.value = "asc";
-		}
+	const setSort = (key: SortKey<T>, multiple = false) => {
+		sortState.value = toggleSorter(sortState.value, key, multiple);
+		currentPage.value = 1; // Reset to first page
+	};
+
+	const clearSort = () => {
+		sortState.value = [];
 		currentPage.value = 1; // Reset to first page
 	};
 
@@ -144,8 +334,14 @@ export function useTable<T extends Record<string, any>>(
 		currentPage.value = 1; // Reset to first page
 	};
 
+	const setFilterTree = (node: FilterNode<T> | null) => {
+		filterTree.value = node;
+		currentPage.value = 1; // Reset to first page
+	};
+
 	const clearAllFilters = () => {
 		filters.value = {};
+		filterTree.value = null;
 		searchQuery.value = "";
 		currentPage.value = 1; // Reset to first page
 	};
@@ -156,7 +352,9 @@ export function useTable<T extends Record<string, any>>(
 	};
 
 	const setPage = (page: number) => {
-		if (page >= 1 && page <= totalPages.value) {
+		// The page count isn't known until the provider first answers
+		const isKnown = !isServer || hasLoaded.value;
+		if (page >= 1 && (!isKnown || page <= totalPages.value)) {
 			currentPage.value = page;
 		}
 	};
@@ -186,22 +384,59 @@ export function useTable<T extends Record<string, any>>(
 		currentPage.value = totalPages.value;
 	};
 
+	const setGroupBy = (rules: GroupBy<T>[]) => {
+		groupBy.value = rules;
+		expandedGroups.value = {};
+	};
+
+	const setGroupExpanded = (id: string, expanded: boolean) => {
+		expandedGroups.value = { ...expandedGroups.value, [id]: expanded };
+	};
+
+	const toggleGroup = (id: string) => {
+		setGroupExpanded(id, !isGroupExpanded(id));
+	};
+
+	const expandAllGroups = () => {
+		allExpanded.value = true;
+		expandedGroups.value = {};
+	};
+
+	const collapseAllGroups = () => {
+		allExpanded.value = false;
+		expandedGroups.value = {};
+	};
+
+	// Pass to `useRow(group, { isExpanded })` to drive a group header
+	const getGroupExpandedRef = (id: string) =>
+		computed({
+			get: () => isGroupExpanded(id),
+			set: (expanded) => setGroupExpanded(id, expanded),
+		});
+
 	// Utility functions
 	const getCellValue = (row: T, column: TableColumn<T>) => {
-		const value = row[column.key];
+		const value = column.path
+			? getValueByPath(row, column.path)
+			: row[column.key];
 		return column.render ? column.render(value, row) : value;
 	};
 
 	const getUniqueValues = (key: keyof T) => {
-		return [...new Set(data.map((row) => row[key]).filter(Boolean))];
+		const source = isServer ? serverRows.value : data;
+		return [...new Set(source.map((row) => row[key]).filter(Boolean))];
 	};
 
-	const isSortedBy = (key: keyof T) => {
-		return sortBy.value === key;
+	const getSortIndex = (key: SortKey<T>) => {
+		return sortState.value.findIndex((sorter) => sorter.key === key);
 	};
 
-	const getSortDirection = (key: keyof T) => {
-		return isSortedBy(key) ? sortOrder.value : null;
+	const isSortedBy = (key: SortKey<T>) => {
+		return getSortIndex(key) !== -1;
+	};
+
+	const getSortDirection = (key: SortKey<T>) => {
+		return sortState.value[getSortIndex(key)]?.order ?? null;
 	};
 
 	// Export pagination hooks
@@ -226,6 +461,9 @@ export function useTable<T extends Record<string, any>>(
 		allData: data,
 		filteredData,
 		sortedData,
+		isLoading,
+		error,
+		refresh,
 
 		// Search
 		searchQuery,
@@ -235,17 +473,34 @@ export function useTable<T extends Record<string, any>>(
 		// Sorting
 		sortBy,
 		sortOrder,
+		sortState,
 		setSort,
+		clearSort,
+		getSortIndex,
 		isSortedBy,
 		getSortDirection,
 
 		// Filtering
 		filters,
+		filterTree,
 		setFilter,
+		setFilterTree,
 		clearFilter,
 		clearAllFilters,
 		getUniqueValues,
 
+		// Grouping
+		groupBy,
+		groups,
+		groupedRows,
+		totals,
+		setGroupBy,
+		isGroupExpanded,
+		toggleGroup,
+		expandAllGroups,
+		collapseAllGroups,
+		getGroupExpandedRef,
+
 		// Pagination
 		...pagination,
 
@@ -0,0 +1,217 @@
+import { describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { required } from "../../ui/validation/useValidationRules";
+import { useTableEdit } from "./useTableEdit";
+
+interface Booking {
+	id: number;
+	guest: string;
+	nights: number;
+}
+
+const createData = () =>
+	ref<Booking[]>([
+		{ id: 1, guest: "Ada", nights: 2 },
+		{ id: 2, guest: "Grace", nights: 3 },
+		{ id: 3, guest: "Linus", nights: 1 },
+	]);
+
+const positive = {
+	validate: (value: number) => value > 0 || "Must be positive",
+};
+
+describe("useTableEdit", () => {
+	it("should track dirty cells across rows", () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", { onSave: vi.fn() });
+		const [first, second] = data.value as [Booking, Booking];
+
+		edit.setCellValue(first, "guest", "Ada L.");
+		edit.setCellValue(second, "nights", 4);
+
+		expect(edit.isDirty.value).toBe(true);
+		expect(edit.dirtyCount.value).toBe(2);
+		expect(edit.dirtyRows.value).toEqual([1, 2]);
+		expect(edit.getCellValue(first, "guest")).toBe("Ada L.");
+		expect(edit.isCellDirty(first, "nights")).toBe(false);
+		expect(first.guest).toBe("Ada");
+	});
+
+	it("should clear a cell edited back to its original value", () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", { onSave: vi.fn() });
+		const first = data.value[0]!;
+
+		edit.setCellValue(first, "nights", 5);
+		edit.setCellValue(first, "nights", 2);
+
+		expect(edit.isRowDirty(first)).toBe(false);
+	});
+
+	it("should validate cells with rules", () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", {
+			rules: { guest: [required()], nights: [positive] },
+			onSave: vi.fn(),
+		});
+		const first = data.value[0]!;
+
+		edit.setCellValue(first, "guest", "");
+		edit.setCellValue(first, "nights", 0);
+
+		expect(edit.getCellError(first, "guest")).toBe("This field is required");
+		expect(edit.getCellError(first, "nights")).toBe("Must be positive");
+		expect(edit.hasErrors.value).toBe(true);
+	});
+
+	it("should save valid rows in batches with optimistic updates", async () => {
+		const data = createData();
+		const snapshots: string[][] = [];
+		const onSave = vi.fn(async () => {
+			snapshots.push(data.value.map((row) => row.guest));
+		});
+		const edit = useTableEdit(data, "id", { onSave, batchSize: 2 });
+
+		data.value.forEach((row) => {
+			edit.setCellValue(row, "guest", row.guest.toUpperCase());
+		});
+		const result = await edit.commit();
+
+		expect(onSave).toHaveBeenCalledTimes(2);
+		expect(snapshots[0]).toEqual(["ADA", "GRACE", "LINUS"]);
+		expect(result.saved).toHaveLength(3);
+		expect(edit.isDirty.value).toBe(false);
+		expect(edit.isSaving.value).toBe(false);
+	});
+
+	it("should skip rows with validation errors", async () => {
+		const data = createData();
+		const onSave = vi.fn();
+		const edit = useTableEdit(data, "id", {
+			rules: { nights: [positive] },
+			onSave,
+		});
+
+		edit.setCellValue(data.value[0]!, "nights", -1);
+		edit.setCellValue(data.value[1]!, "nights", 7);
+		await edit.commit();
+
+		expect(onSave.mock.calls[0]?.[0].map((c: any) => c.key)).toEqual([2]);
+		expect(edit.dirtyRows.value).toEqual([1]);
+	});
+
+	it("should wait for async rules before saving", async () => {
+		const data = createData();
+		const onSave = vi.fn();
+		const available = {
+			validate: async (value: string) =>
+				value !== "Taken" || "Guest already booked",
+		};
+		const edit = useTableEdit(data, "id", {
+			rules: { guest: [available] },
+			onSave,
+		});
+		const [first, second] = data.value as [Booking, Booking];
+
+		edit.setCellValue(first, "guest", "Taken");
+		edit.setCellValue(second, "guest", "Free");
+		expect(edit.isValidating.value).toBe(true);
+		expect(edit.isCellValidating(first, "guest")).toBe(true);
+
+		const result = await edit.commit();
+
+		expect(edit.isValidating.value).toBe(false);
+		expect(edit.getCellError(first, "guest")).toBe("Guest already booked");
+		expect(result.saved.map((change) => change.key)).toEqual([2]);
+		expect(edit.dirtyRows.value).toEqual([1]);
+	});
+
+	it("should roll back failed rows with per-cell errors", async () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", {
+			onSave: async () => [{ key: 2, errors: { nights: "Room unavailable" } }],
+		});
+
+		edit.setCellValue(data.value[0]!, "nights", 4);
+		edit.setCellValue(data.value[1]!, "nights", 9);
+		const result = await edit.commit();
+
+		expect(result.failed.map((change) => change.key)).toEqual([2]);
+		expect(data.value[0]?.nights).toBe(4);
+		expect(data.value[1]?.nights).toBe(3);
+		expect(edit.getCellValue(data.value[1]!, "nights")).toBe(9);
+		expect(edit.getCellError(data.value[1]!, "nights")).toBe(
+			"Room unavailable",
+		);
+	});
+
+	it("should keep edits made while a failing save was in flight", async () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", {
+			onSave: async () => {
+				edit.setCellValue(data.value[0]!, "guest", "Ada L.");
+				throw new Error("Offline");
+			},
+		});
+
+		edit.setCellValue(data.value[0]!, "nights", 4);
+		await edit.commit();
+
+		const [first] = data.value as [Booking];
+		expect(first).toEqual({ id: 1, guest: "Ada", nights: 2 });
+		expect(edit.getCellValue(first, "nights")).toBe(4);
+		expect(edit.getCellValue(first, "guest")).toBe("Ada L.");
+	});
+
+	it("should fail the whole batch when onSave rejects", async () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", {
+			onSave: async () => {
+				throw new Error("Server error");
+			},
+		});
+
+		edit.setCellValue(data.value[0]!, "guest", "Ada L.");
+		await edit.commit();
+
+		expect(data.value[0]?.guest).toBe("Ada");
+		expect(edit.error.value?.message).toBe("Server error");
+		expect(edit.getCellError(data.value[0]!, "guest")).toBe("Server error");
+		expect(edit.isRowDirty(data.value[0]!)).toBe(true);
+	});
+
+	it("should discard edits", () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", { onSave: vi.fn() });
+
+		edit.setCellValue(data.value[0]!, "nights", 4);
+		edit.setCellValue(data.value[1]!, "nights", 4);
+		edit.discard(data.value[0]!);
+		expect(edit.dirtyRows.value).toEqual([2]);
+
+		edit.discardAll();
+		expect(edit.isDirty.value).toBe(false);
+	});
+
+	it("should undo and redo edits", () => {
+		const data = createData();
+		const edit = useTableEdit(data, "id", { onSave: vi.fn() });
+		const first = data.value[0]!;
+
+		edit.setCellValue(first, "nights", 4);
+		edit.setCellValue(first, "nights", 5);
+		edit.undo();
+		expect(edit.getCellValue(first, "nights")).toBe(4);
+
+		edit.undo();
+		expect(edit.isDirty.value).toBe(false);
+		expect(edit.canUndo.value).toBe(false);
+
+		edit.redo();
+		expect(edit.getCellValue(first, "nights")).toBe(4);
+
+		edit.discardAll();
+		edit.undo();
+		expect(edit.getCellValue(first, "nights")).toBe(4);
+	});
+});
@@ -0,0 +1,332 @@
+import type { Ref } from "vue";
+import { computed, ref } from "vue";
+import { useHistory } from "../../core/state/useHistory";
+import {
+	createValidationRunner,
+	isPromise,
+	runRules,
+} from "../../ui/validation/runRules";
+import type { FormValidationRule } from "../../ui/validation/types";
+
+export type CellErrors<T> = Partial<Record<keyof T, string>>;
+
+export interface RowChange<T> {
+	key: T[keyof T];
+	original: T;
+	changes: Partial<T>;
+	/** The original row with the changes applied */
+	row: T;
+}
+
+export interface SaveFailure<T> {
+	key: T[keyof T];
+	/** Per-cell errors; without them `message` is set on every changed cell */
+	errors?: CellErrors<T>;
+	message?: string;
+}
+
+export interface UseTableEditOptions<T> {
+	rules?: { [P in keyof T]?: FormValidationRule<T[P]>[] };
+	/**
+	 * Persists a batch of rows. Resolve with the rows that failed, or
+	 * reject to fail the whole batch.
+	 */
+	onSave: (
+		changes: RowChange<T>[],
+	) => Promise<SaveFailure<T>[] | void> | SaveFailure<T>[] | void;
+	batchSize?: number;
+	historyCapacity?: number;
+}
+
+export interface CommitResult<T> {
+	saved: RowChange<T>[];
+	failed: RowChange<T>[];
+}
+
+type Drafts<T> = Map<T[keyof T], Partial<T>>;
+
+const cloneDrafts = <T>(drafts: Drafts<T>): Drafts<T> =>
+	new Map([...drafts].map(([key, changes]) => [key, { ...changes }]));
+
+export function useTableEdit<T extends Record<string, any>>(
+	data: Ref<T[]>,
+	key: keyof T,
+	options: UseTableEditOptions<T>,
+) {
+	const { rules, onSave, batchSize = 50, historyCapacity } = options;
+
+	const drafts = ref(new Map()) as Ref<Drafts<T>>;
+	const errors = ref(new Map()) as Ref<Map<T[keyof T], CellErrors<T>>>;
+	const isSaving = ref(false);
+	const error = ref<Error | null>(null);
+
+	const history = useHistory<Drafts<T>>({
+		...(historyCapacity !== undefined && { capacity: historyCapacity }),
+		initial: [new Map()],
+	});
+
+	const dirtyRows = computed(() => [...drafts.value.keys()]);
+	const dirtyCount = computed(() =>
+		[...drafts.value.values()].reduce(
+			(count, changes) => count + Object.keys(changes).length,
+			0,
+		),
+	);
+	const isDirty = computed(() => drafts.value.size > 0);
+	const hasErrors = computed(() =>
+		[...errors.value.values()].some(
+			(cellErrors) => Object.keys(cellErrors).length > 0,
+		),
+	);
+
+	const findRow = (rowKey: T[keyof T]) =>
+		data.value.find((row) => row[key] === rowKey);
+
+	const setCellError = (
+		rowKey: T[keyof T],
+		field: keyof T,
+		message: string | null,
+	) => {
+		const cellErrors = { ...errors.value.get(rowKey) } as CellErrors<T>;
+		if (message) {
+			cellErrors[field] = message;
+		} else {
+			delete cellErrors[field];
+		}
+
+		if (Object.keys(cellErrors).length > 0) {
+			errors.value.set(rowKey, cellErrors);
+		} else {
+			errors.value.delete(rowKey);
+		}
+	};
+
+	const getCellValue = <K extends keyof T>(row: T, field: K): T[K] => {
+		const changes = drafts.value.get(row[key]);
+		return changes && field in changes ? (changes[field] as T[K]) : row[field];
+	};
+
+	const isCellDirty = (row: T, field: keyof T) =>
+		field in (drafts.value.get(row[key]) ?? {});
+
+	const isRowDirty = (row: T) => drafts.value.has(row[key]);
+
+	const getCellError = (row: T, field: keyof T) =>
+		errors.value.get(row[key])?.[field] ?? null;
+
+	const runner = createValidationRunner();
+	const isValidating = computed(() =>
+		Object.values(runner.validating.value).some(Boolean),
+	);
+
+	const cellKey = (rowKey: T[keyof T], field: keyof T) =>
+		`${String(rowKey)}:${String(field)}`;
+
+	const isCellValidating = (row: T, field: keyof T) =>
+		!!runner.validating.value[cellKey(row[key], field)];
+
+	// Resolves later when a rule is async
+	const validateCell = (row: T, field: keyof T) => {
+		const rowKey = row[key];
+		const values = { ...row, ...drafts.value.get(rowKey) };
+		return runner.run(
+			cellKey(rowKey, field),
+			(signal) =>
+				runRules(rules?.[field] ?? [], values[field], {
+					values,
+					field: String(field),
+					signal,
+				}),
+			(message) => {
+				setCellError(rowKey, field, message);
+				return message === null;
+			},
+		);
+	};
+
+	// Validates every dirty cell, waiting for async rules if there are any
+	const validate = (): boolean | Promise<boolean> => {
+		const results: (boolean | Promise<boolean>)[] = [];
+		drafts.value.forEach((changes, rowKey) => {
+			const row = findRow(rowKey);
+			if (!row) return;
+			Object.keys(changes).forEach((field) => {
+				results.push(validateCell(row, field));
+			});
+		});
+		return results.some(isPromise)
+			? Promise.all(results).then((valid) => valid.every(Boolean))
+			: results.every(Boolean);
+	};
+
+	const recordHistory = () => {
+		history.push(cloneDrafts(drafts.value));
+	};
+
+	const setCellValue = <K extends keyof T>(row: T, field: K, value: T[K]) => {
+		const rowKey = row[key];
+		const changes = { ...drafts.value.get(rowKey) } as Partial<T>;
+
+		// Editing a cell back to its original value makes it clean again
+		if (Object.is(row[field], value)) {
+			delete changes[field];
+		} else {
+			changes[field] = value;
+		}
+
+		if (Object.keys(changes).length > 0) {
+			drafts.value.set(rowKey, changes);
+		} else {
+			drafts.value.delete(rowKey);
+		}
+
+		validateCell(row, field);
+		recordHistory();
+	};
+
+	const restoreDrafts = (snapshot: Drafts<T> | null) => {
+		if (!snapshot) return;
+		drafts.value = cloneDrafts(snapshot);
+		errors.value = new Map();
+		validate();
+	};
+
+	const undo = () => restoreDrafts(history.undo() as Drafts<T> | null);
+	const redo = () => restoreDrafts(history.redo() as Drafts<T> | null);
+
+	const discard = (row: T) => {
+		const changes = drafts.value.get(row[key]);
+		if (!changes) return;
+		Object.keys(changes).forEach((field) => {
+			runner.cancel(cellKey(row[key], field));
+		});
+		drafts.value.delete(row[key]);
+		errors.value.delete(row[key]);
+		recordHistory();
+	};
+
+	const discardAll = () => {
+		if (!isDirty.value) return;
+		runner.cancel();
+		drafts.value = new Map();
+		errors.value = new Map();
+		recordHistory();
+	};
+
+	const replaceRow = (rowKey: T[keyof T], row: T) => {
+		data.value = data.value.map((item) => (item[key] === rowKey ? row : item));
+	};
+
+	const failRow = (change: RowChange<T>, failure: SaveFailure<T>) => {
+		// Roll back the optimistic update and keep the edits for a retry;
+		// edits made while the save was in flight win
+		replaceRow(change.key, change.original);
+		drafts.value.set(change.key, {
+			...change.changes,
+			...drafts.value.get(change.key),
+		});
+
+		const fields = Object.keys(change.changes) as (keyof T)[];
+		fields.forEach((field) => {
+			const message =
+				failure.errors?.[field] ??
+				(failure.errors ? null : (failure.message ?? "Failed to save"));
+			setCellError(change.key, field, message);
+		});
+	};
+
+	/**
+	 * Saves all valid dirty rows in batches once pending validation has
+	 * settled. Rows are updated in `data` right away and rolled back if
+	 * their batch fails.
+	 */
+	const commit = async (): Promise<CommitResult<T>> => {
+		await validate();
+
+		const changes: RowChange<T>[] = [];
+		drafts.value.forEach((rowChanges, rowKey) => {
+			const original = findRow(rowKey);
+			if (!original || errors.value.has(rowKey)) return;
+			changes.push({
+				key: rowKey,
+				original,
+				changes: rowChanges,
+				row: { ...original, ...rowChanges },
+			});
+		});
+
+		const result: CommitResult<T> = { saved: [], failed: [] };
+		if (changes.length === 0) return result;
+
+		isSaving.value = true;
+		error.value = null;
+
+		// Optimistic update
+		changes.forEach((change) => {
+			replaceRow(change.key, change.row);
+			drafts.value.delete(change.key);
+		});
+
+		try {
+			for (let i = 0; i < changes.length; i += batchSize) {
+				const batch = changes.slice(i, i + batchSize);
+				let failures: SaveFailure<T>[] = [];
+
+				try {
+					failures = (await onSave(batch)) ?? [];
+				} catch (e) {
+					error.value = e instanceof Error ? e : new Error(String(e));
+					failures = batch.map((change) => ({
+						key: change.key,
+						message: error.value!.message,
+					}));
+				}
+
+				batch.forEach((change) => {
+					const failure = failures.find((item) => item.key === change.key);
+					if (failure) {
+						failRow(change, failure);
+						result.failed.push(change);
+					} else {
+						result.saved.push(change);
+					}
+				});
+			}
+		} finally {
+			isSaving.value = false;
+		}
+
+		// Saved edits can no longer be undone locally
+		history.clear();
+		history.push(cloneDrafts(drafts.value));
+
+		return result;
+	};
+
+	return {
+		drafts,
+		errors,
+		dirtyRows,
+		dirtyCount,
+		isDirty,
+		hasErrors,
+		isSaving,
+		isValidating,
+		error,
+		canUndo: history.canUndo,
+		canRedo: history.canRedo,
+		getCellValue,
+		setCellValue,
+		isCellDirty,
+		isRowDirty,
+		getCellError,
+		isCellValidating,
+		validateCell,
+		validate,
+		commit,
+		discard,
+		discardAll,
+		undo,
+		redo,
+	};
+}
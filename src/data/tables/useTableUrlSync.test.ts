@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { nextTick } from "vue";
+import { usePagination } from "./usePagination";
+import { useTable } from "./useTable";
+import { useTableUrlSync } from "./useTableUrlSync";
+
+describe("useTableUrlSync", () => {
+	const data = Array.from({ length: 30 }, (_, i) => ({
+		id: i + 1,
+		name: `Guest ${i + 1}`,
+		status: i % 2 === 0 ? "paid" : "unpaid",
+	}));
+	const columns = [
+		{ key: "id" as const, label: "ID" },
+		{ key: "name" as const, label: "Name" },
+		{ key: "status" as const, label: "Status" },
+	];
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		window.history.replaceState(null, "", "/bookings");
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should write table state to the URL after the debounce", async () => {
+		const table = useTable({ data, columns });
+		useTableUrlSync(table, { debounce: 100 });
+
+		table.setSearch("guest");
+		table.setFilter("status", "paid");
+		table.setSort("name");
+		table.setSort("name");
+		table.setPage(2);
+		await nextTick();
+		expect(window.location.search).toBe("");
+
+		vi.advanceTimersByTime(100);
+		const params = new URLSearchParams(window.location.search);
+		expect(params.get("q")).toBe("guest");
+		expect(JSON.parse(params.get("filters")!)).toEqual({ status: "paid" });
+		expect(params.get("sort")).toBe("name");
+		expect(params.get("order")).toBe("desc");
+		expect(params.get("page")).toBe("2");
+		expect(params.has("size")).toBe(false);
+	});
+
+	it("should restore state from the URL", () => {
+		window.history.replaceState(
+			null,
+			"",
+			"/bookings?q=guest&sort=id&order=desc&page=2&size=5&other=1",
+		);
+
+		const table = useTable({ data, columns });
+		useTableUrlSync(table);
+
+		expect(table.searchQuery.value).toBe("guest");
+		expect(table.sortBy.value).toBe("id");
+		expect(table.sortOrder.value).toBe("desc");
+		expect(table.currentPage.value).toBe(2);
+		expect(table.pageSize.value).toBe(5);
+		expect(table.data.value[0]?.id).toBe(25);
+	});
+
+	it("should use custom param names and push history entries", async () => {
+		const pushState = vi.spyOn(window.history, "pushState");
+		const pagination = usePagination({ totalItems: 100 });
+		useTableUrlSync(pagination, {
+			params: { currentPage: "p", pageSize: "per" },
+			history: "push",
+		});
+
+		pagination.goToPage(3);
+		pagination.pageSize.value = 20;
+		await nextTick();
+		vi.advanceTimersByTime(300);
+
+		expect(pushState).toHaveBeenCalledTimes(1);
+		expect(window.location.search).toBe("?p=3&per=20");
+		pushState.mockRestore();
+	});
+
+	it("should preserve unrelated params and flush immediately", async () => {
+		window.history.replaceState(null, "", "/bookings?tab=arrivals");
+		const table = useTable({ data, columns });
+		const { flush, isPending } = useTableUrlSync(table);
+
+		table.setSearch("vip");
+		await nextTick();
+		expect(isPending.value).toBe(true);
+
+		flush();
+		expect(isPending.value).toBe(false);
+		expect(window.location.search).toBe("?tab=arrivals&q=vip");
+	});
+
+	it("should apply back/forward navigation", async () => {
+		const table = useTable({ data, columns });
+		useTableUrlSync(table);
+
+		window.history.replaceState(null, "", "/bookings?page=3&q=guest");
+		window.dispatchEvent(new PopStateEvent("popstate"));
+		await nextTick();
+
+		expect(table.currentPage.value).toBe(3);
+		expect(table.searchQuery.value).toBe("guest");
+
+		window.history.replaceState(null, "", "/bookings");
+		window.dispatchEvent(new PopStateEvent("popstate"));
+		await nextTick();
+
+		expect(table.currentPage.value).toBe(1);
+		expect(table.searchQuery.value).toBe("");
+	});
+
+	it("should stop syncing", async () => {
+		const table = useTable({ data, columns });
+		const { stop } = useTableUrlSync(table);
+		const removeListener = vi.spyOn(window, "removeEventListener");
+
+		stop();
+		table.setSearch("late");
+		await nextTick();
+		vi.advanceTimersByTime(300);
+
+		expect(window.location.search).toBe("");
+		expect(removeListener).toHaveBeenCalledWith(
+			"popstate",
+			expect.any(Function),
+		);
+		removeListener.mockRestore();
+	});
+});
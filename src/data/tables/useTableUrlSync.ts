@@ -0,0 +1,182 @@
+import { getCurrentInstance, onUnmounted, type Ref, watch } from "vue";
+import { useUrl } from "../../browser/network/useUrl";
+import { useDebounceFn } from "../../utils/time/useDebounceFn";
+import {
+	type FilterNode,
+	parseFilter,
+	serializeFilter,
+} from "../filters/filterTree";
+
+/**
+ * Any subset of the refs returned by `useTable` or `usePagination`.
+ * Only the primary sort is synced, through `sortBy` and `sortOrder`;
+ * further keys of a multi-column `sortState` stay out of the URL.
+ */
+export interface TableUrlState {
+	searchQuery?: Ref<string>;
+	filters?: Ref<Record<string, any>>;
+	filterTree?: Ref<FilterNode | null>;
+	sortBy?: Ref<any>;
+	sortOrder?: Ref<"asc" | "desc">;
+	currentPage?: Ref<number>;
+	pageSize?: Ref<number>;
+}
+
+export type TableUrlStateKey = keyof TableUrlState;
+
+export interface UseTableUrlSyncOptions {
+	params?: Partial<Record<TableUrlStateKey, string>>;
+	debounce?: number;
+	history?: "replace" | "push";
+}
+
+const defaultParams: Record<TableUrlStateKey, string> = {
+	searchQuery: "q",
+	filters: "filters",
+	filterTree: "where",
+	sortBy: "sort",
+	sortOrder: "order",
+	currentPage: "page",
+	pageSize: "size",
+};
+
+const serializers: {
+	[K in TableUrlStateKey]: {
+		write: (value: any) => string;
+		read: (raw: string) => any;
+	};
+} = {
+	searchQuery: { write: String, read: (raw) => raw },
+	filters: { write: JSON.stringify, read: JSON.parse },
+	filterTree: { write: serializeFilter, read: parseFilter },
+	sortBy: { write: String, read: (raw) => raw },
+	sortOrder: {
+		write: String,
+		read: (raw) => (raw === "desc" ? "desc" : "asc"),
+	},
+	currentPage: { write: String, read: Number },
+	pageSize: { write: String, read: Number },
+};
+
+const isEmptyValue = (value: unknown) =>
+	value === undefined ||
+	value === null ||
+	value === "" ||
+	(typeof value === "object" && Object.keys(value).length === 0);
+
+export function useTableUrlSync(
+	state: TableUrlState,
+	options: UseTableUrlSyncOptions = {},
+) {
+	const { debounce = 300, history: mode = "replace" } = options;
+	const params = { ...defaultParams, ...options.params };
+	const { url, params: urlParams, setUrl, stop: stopUrlListener } = useUrl();
+
+	const keys = (Object.keys(params) as TableUrlStateKey[]).filter(
+		(key) => state[key] !== undefined,
+	);
+
+	// Values equal to the initial state are left out of the URL
+	const initialValues: Record<string, string | undefined> =
+		Object.fromEntries(
+			keys.map((key) => [key, JSON.stringify(state[key]!.value)]),
+		);
+
+	const buildSearch = () => {
+		const searchParams = new URLSearchParams(window.location.search);
+
+		keys.forEach((key) => {
+			const value = state[key]!.value;
+			if (
+				isEmptyValue(value) ||
+				JSON.stringify(value) === initialValues[key]
+			) {
+				searchParams.delete(params[key]);
+			} else {
+				searchParams.set(params[key], serializers[key].write(value));
+			}
+		});
+
+		const search = searchParams.toString();
+		return search ? `?${search}` : "";
+	};
+
+	const applyFromUrl = () => {
+		const current: Record<string, string> = urlParams.value;
+
+		keys.forEach((key) => {
+			const raw = current[params[key]];
+			const target = state[key]!;
+
+			if (raw === undefined) {
+				const initial = initialValues[key];
+				target.value =
+					initial === undefined ? undefined : JSON.parse(initial);
+				return;
+			}
+
+			try {
+				const value = serializers[key].read(raw);
+				if (typeof value === "number" && Number.isNaN(value)) return;
+				target.value = value;
+			} catch {
+				// Malformed param, keep the current value
+			}
+		});
+	};
+
+	const write = () => {
+		const search = buildSearch();
+		if (search === window.location.search) return;
+
+		const { pathname, hash } = window.location;
+		const href = `${pathname}${search}${hash}`;
+		if (mode === "push") {
+			window.history.pushState(window.history.state, "", href);
+		} else {
+			window.history.replaceState(window.history.state, "", href);
+		}
+		setUrl(window.location.href);
+	};
+
+	const { debouncedFn, cancel, isPending } = useDebounceFn(write, {
+		delay: debounce,
+	});
+
+	const flush = () => {
+		cancel();
+		write();
+	};
+
+	applyFromUrl();
+
+	const stopState = watch(
+		keys.map((key) => state[key]!),
+		() => debouncedFn(),
+		{ deep: true },
+	);
+
+	// Back/forward navigation: useUrl tracks popstate for us
+	const stopUrl = watch(url, () => {
+		if (buildSearch() === window.location.search) return;
+		cancel();
+		applyFromUrl();
+	});
+
+	const stop = () => {
+		cancel();
+		stopState();
+		stopUrl();
+		stopUrlListener();
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
+	return {
+		isPending,
+		flush,
+		stop,
+	};
+}
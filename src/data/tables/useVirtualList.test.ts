@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import { nextTick, ref } from "vue";
+import { useVirtualList } from "./useVirtualList";
+
+// jsdom has no layout, so element heights are stubbed
+const createElement = (height: number) => {
+	const el = document.createElement("div");
+	el.getBoundingClientRect = () => ({ height }) as DOMRect;
+	return el;
+};
+
+describe("useVirtualList", () => {
+	const items = ref(Array.from({ length: 1000 }, (_, i) => ({ id: i })));
+
+	it("should render only the visible window plus overscan", async () => {
+		const { list, containerRef, totalHeight, wrapperProps } = useVirtualList(
+			items,
+			{ itemHeight: 20, overscan: 2 },
+		);
+		containerRef.value = createElement(100);
+		await nextTick();
+
+		expect(totalHeight.value).toBe(20000);
+		expect(list.value[0]?.index).toBe(0);
+		expect(list.value).toHaveLength(8);
+		expect(wrapperProps.value.style.marginTop).toBe("0px");
+	});
+
+	it("should update the window on scroll", async () => {
+		const { list, containerRef, containerProps, wrapperProps } =
+			useVirtualList(items, { itemHeight: 20, overscan: 2 });
+		const container = createElement(100);
+		containerRef.value = container;
+		await nextTick();
+
+		container.scrollTop = 1000;
+		containerProps.onScroll();
+
+		expect(list.value[0]?.index).toBe(48);
+		expect(list.value.at(-1)?.index).toBe(57);
+		expect(wrapperProps.value.style.marginTop).toBe("960px");
+		expect(wrapperProps.value.style.height).toBe("19040px");
+	});
+
+	it("should scroll to an index", async () => {
+		const { list, containerRef, scrollToIndex } = useVirtualList(items, {
+			itemHeight: 20,
+			overscan: 0,
+		});
+		const container = createElement(100);
+		containerRef.value = container;
+		await nextTick();
+
+		scrollToIndex(500);
+		expect(container.scrollTop).toBe(10000);
+		expect(list.value[0]?.index).toBe(500);
+
+		scrollToIndex(500, "center");
+		expect(container.scrollTop).toBe(9960);
+
+		scrollToIndex(5000, "end");
+		expect(container.scrollTop).toBe(19900);
+	});
+
+	it("should use measured heights for dynamic rows", async () => {
+		const { totalHeight, measureElement, containerRef, scrollToIndex } =
+			useVirtualList(items, { itemHeight: () => 20 });
+		const container = createElement(100);
+		containerRef.value = container;
+		await nextTick();
+
+		measureElement(createElement(50), 0);
+		measureElement(createElement(80), 1);
+
+		expect(totalHeight.value).toBe(20000 + 30 + 60);
+
+		scrollToIndex(2);
+		expect(container.scrollTop).toBe(130);
+	});
+
+	it("should stop observing rows that unmount or leave the range", async () => {
+		const { measureElement, scrollToIndex } = useVirtualList(items, {
+			itemHeight: 20,
+			overscan: 2,
+		});
+		const observer = vi.mocked(ResizeObserver).mock.instances.at(-1)!;
+		const rows = [0, 1, 2].map(() => createElement(20));
+		rows.forEach((row, index) => {
+			measureElement(row, index);
+		});
+		expect(observer.observe).toHaveBeenCalledTimes(3);
+
+		measureElement(null, 0);
+		expect(observer.unobserve).toHaveBeenCalledWith(rows[0]);
+
+		scrollToIndex(50);
+		await nextTick();
+		expect(observer.unobserve).toHaveBeenCalledWith(rows[1]);
+		expect(observer.unobserve).toHaveBeenCalledWith(rows[2]);
+		expect(observer.unobserve).toHaveBeenCalledTimes(3);
+	});
+
+	it("should keep measurements attached to keys when sorted", () => {
+		const rows = ref([{ id: "a" }, { id: "b" }, { id: "c" }]);
+		const { totalHeight, measureElement, list } = useVirtualList(rows, {
+			itemHeight: 10,
+			getKey: (row) => row.id,
+		});
+
+		measureElement(createElement(40), 0);
+		rows.value = [...rows.value].reverse();
+
+		expect(list.value.map((item) => item.data.id)).toEqual(["c", "b", "a"]);
+		expect(totalHeight.value).toBe(60);
+	});
+
+	it("should follow filtered data", async () => {
+		const source = ref(Array.from({ length: 100 }, (_, i) => i));
+		const { list, containerRef, containerProps } = useVirtualList(source, {
+			itemHeight: 10,
+			overscan: 0,
+		});
+		const container = createElement(50);
+		containerRef.value = container;
+		await nextTick();
+
+		container.scrollTop = 900;
+		containerProps.onScroll();
+		source.value = source.value.filter((n) => n % 10 === 0);
+		await nextTick();
+
+		expect(list.value.map((item) => item.data)).toEqual([50, 60, 70, 80, 90]);
+	});
+});
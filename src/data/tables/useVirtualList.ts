@@ -0,0 +1,222 @@
+import type { Ref } from "vue";
+import { computed, getCurrentInstance, onUnmounted, ref, watch } from "vue";
+import { useElementBounding } from "../../ui/dimensions/useElementBounding";
+
+export interface UseVirtualListOptions<T> {
+	/**
+	 * Fixed row height, or an estimate per index when rows are measured
+	 * with `measureElement`.
+	 */
+	itemHeight: number | ((index: number) => number);
+	overscan?: number;
+	/** Keeps measured heights attached to rows when the list is re-sorted */
+	getKey?: (item: T, index: number) => unknown;
+}
+
+export interface VirtualListItem<T> {
+	data: T;
+	index: number;
+}
+
+export type ScrollAlignment = "start" | "center" | "end";
+
+export function useVirtualList<T>(
+	items: Ref<T[]>,
+	options: UseVirtualListOptions<T>,
+) {
+	const { itemHeight, overscan = 5, getKey = (_item, index) => index } =
+		options;
+
+	const containerRef = ref<HTMLElement | null>(null);
+	const { height: containerHeight } = useElementBounding(containerRef);
+	const scrollTop = ref(0);
+
+	const measuredHeights = new Map<unknown, number>();
+	const measureVersion = ref(0);
+
+	const getItemHeight = (index: number) => {
+		const measured = measuredHeights.get(getKey(items.value[index]!, index));
+		if (measured !== undefined) return measured;
+		return typeof itemHeight === "function" ? itemHeight(index) : itemHeight;
+	};
+
+	// offsets[i] is the top of row i; the last entry is the total height
+	const offsets = computed(() => {
+		void measureVersion.value;
+		const result = [0];
+		for (let i = 0; i < items.value.length; i++) {
+			result.push(result[i]! + getItemHeight(i));
+		}
+		return result;
+	});
+
+	const totalHeight = computed(() => offsets.value[items.value.length]!);
+
+	const findIndexAt = (offset: number) => {
+		let low = 0;
+		let high = items.value.length - 1;
+		while (low < high) {
+			const mid = Math.ceil((low + high) / 2);
+			if (offsets.value[mid]! <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return Math.max(0, low);
+	};
+
+	const range = computed(() => {
+		const count = items.value.length;
+		if (count === 0) return { start: 0, end: 0 };
+
+		const first = findIndexAt(scrollTop.value);
+		const last = findIndexAt(scrollTop.value + containerHeight.value);
+		return {
+			start: Math.max(0, first - overscan),
+			end: Math.min(count, last + 1 + overscan),
+		};
+	});
+
+	const list = computed<VirtualListItem<T>[]>(() => {
+		const { start, end } = range.value;
+		return items.value
+			.slice(start, end)
+			.map((data, i) => ({ data, index: start + i }));
+	});
+
+	const offsetTop = computed(() => offsets.value[range.value.start] ?? 0);
+
+	const onScroll = () => {
+		const el = containerRef.value;
+		if (el) {
+			scrollTop.value = el.scrollTop;
+		}
+	};
+
+	const containerProps = {
+		ref: containerRef,
+		onScroll,
+		style: { overflowY: "auto" as const },
+	};
+
+	const wrapperProps = computed(() => ({
+		style: {
+			width: "100%",
+			height: `${totalHeight.value - offsetTop.value}px`,
+			marginTop: `${offsetTop.value}px`,
+		},
+	}));
+
+	const scrollToIndex = (index: number, align: ScrollAlignment = "start") => {
+		const count = items.value.length;
+		if (count === 0) return;
+
+		const target = Math.min(Math.max(0, index), count - 1);
+		const top = offsets.value[target]!;
+		const height = getItemHeight(target);
+		const viewport = containerHeight.value;
+
+		let position = top;
+		if (align === "center") position = top - (viewport - height) / 2;
+		if (align === "end") position = top - viewport + height;
+		position = Math.max(0, Math.min(position, totalHeight.value - viewport));
+
+		const el = containerRef.value;
+		if (el) {
+			el.scrollTop = position;
+		}
+		scrollTop.value = position;
+	};
+
+	// Dynamic row heights; rows are released once they leave the range
+	const observedIndexes = new Map<Element, number>();
+
+	const setMeasuredHeight = (index: number, height: number) => {
+		const item = items.value[index];
+		if (item === undefined || height <= 0) return;
+
+		const key = getKey(item, index);
+		if (measuredHeights.get(key) !== height) {
+			measuredHeights.set(key, height);
+			measureVersion.value++;
+		}
+	};
+
+	const observer =
+		typeof ResizeObserver !== "undefined"
+			? new ResizeObserver((entries) => {
+					entries.forEach((entry) => {
+						const index = observedIndexes.get(entry.target);
+						if (index !== undefined) {
+							setMeasuredHeight(
+								index,
+								entry.target.getBoundingClientRect().height,
+							);
+						}
+					});
+				})
+			: null;
+
+	const unobserve = (el: Element) => {
+		observer?.unobserve(el);
+		observedIndexes.delete(el);
+	};
+
+	// Vue calls a ref callback with null when the row unmounts
+	const measureElement = (el: Element | null, index: number) => {
+		if (!el) {
+			observedIndexes.forEach((observedIndex, item) => {
+				if (observedIndex === index) unobserve(item);
+			});
+			return;
+		}
+
+		if (!observedIndexes.has(el)) {
+			observer?.observe(el);
+		}
+		observedIndexes.set(el, index);
+		setMeasuredHeight(index, el.getBoundingClientRect().height);
+	};
+
+	watch(range, ({ start, end }) => {
+		observedIndexes.forEach((index, el) => {
+			if (index < start || index >= end) unobserve(el);
+		});
+	});
+
+	// Clamp the scroll position when filtering shrinks the list
+	watch(
+		() => items.value.length,
+		(length, oldLength) => {
+			if (length < oldLength) {
+				scrollTop.value = Math.min(
+					scrollTop.value,
+					Math.max(0, totalHeight.value - containerHeight.value),
+				);
+			}
+		},
+	);
+
+	const stop = () => {
+		observer?.disconnect();
+		observedIndexes.clear();
+	};
+
+	if (getCurrentInstance()) {
+		onUnmounted(stop);
+	}
+
+	return {
+		list,
+		containerRef,
+		containerProps,
+		wrapperProps,
+		totalHeight,
+		startIndex: computed(() => range.value.start),
+		endIndex: computed(() => range.value.end),
+		scrollToIndex,
+		measureElement,
+		stop,
+	};
+}
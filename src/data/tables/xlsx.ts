@@ -0,0 +1,173 @@
+// Minimal XLSX writer: one worksheet of inline strings, numbers and
+// booleans, packed in an uncompressed (stored) ZIP archive.
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	files.forEach((file) => {
+		const name = encoder.encode(file.name);
+		const data = encoder.encode(file.content);
+		const crc = crc32(data);
+
+		const local = new Uint8Array(30 + name.length);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, 0x04034b50, true);
+		localView.setUint16(4, 20, true); // version needed
+		localView.setUint16(8, 0, true); // stored, no compression
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, data.length, true);
+		localView.setUint32(22, data.length, true);
+		localView.setUint16(26, name.length, true);
+		local.set(name, 30);
+
+		const central = new Uint8Array(46 + name.length);
+		const centralView = new DataView(central.buffer);
+		centralView.setUint32(0, 0x02014b50, true);
+		centralView.setUint16(4, 20, true); // version made by
+		centralView.setUint16(6, 20, true); // version needed
+		centralView.setUint16(10, 0, true);
+		centralView.setUint32(16, crc, true);
+		centralView.setUint32(20, data.length, true);
+		centralView.setUint32(24, data.length, true);
+		centralView.setUint16(28, name.length, true);
+		centralView.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		localParts.push(local, data);
+		centralParts.push(central);
+		offset += local.length + data.length;
+	});
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, files.length, true);
+	endView.setUint16(10, files.length, true);
+	endView.setUint32(12, centralSize, true);
+	endView.setUint32(16, offset, true);
+
+	const parts = [...localParts, ...centralParts, end];
+	const zip = new Uint8Array(offset + centralSize + end.length);
+	let position = 0;
+	parts.forEach((part) => {
+		zip.set(part, position);
+		position += part.length;
+	});
+	return zip;
+}
+
+// Control characters other than tab and newlines are not allowed in XML 1.0
+const isXmlChar = (char: string) => {
+	const code = char.charCodeAt(0);
+	return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+	Array.from(value)
+		.filter(isXmlChar)
+		.join("")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+// Excel rejects sheet names over 31 characters, with any of : \\ / ? * [ ]
+// or starting or ending with an apostrophe
+const sheetTitle = (name: string) =>
+	name
+		.replace(/[:\\/?*[\]]/g, "-")
+		.slice(0, 31)
+		.replace(/^'+|'+$/g, "") || "Sheet1";
+
+function columnName(index: number): string {
+	let name = "";
+	let n = index + 1;
+	while (n > 0) {
+		const remainder = (n - 1) % 26;
+		name = String.fromCharCode(65 + remainder) + name;
+		n = Math.floor((n - 1) / 26);
+	}
+	return name;
+}
+
+function renderCell(value: XlsxCell, ref: string): string {
+	if (value === null || value === undefined || value === "") return "";
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return `<c r="${ref}"><v>${value}</v></c>`;
+	}
+	if (typeof value === "boolean") {
+		return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+	}
+	return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+export function createXlsx(rows: XlsxCell[][], sheetName = "Sheet1") {
+	const sheetRows = rows
+		.map((row, rowIndex) => {
+			const cells = row
+				.map((value, colIndex) =>
+					renderCell(value, `${columnName(colIndex)}${rowIndex + 1}`),
+				)
+				.join("");
+			return `<row r="${rowIndex + 1}">${cells}</row>`;
+		})
+		.join("");
+
+	const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+	const mainNs = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+	const relNs =
+		"http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+	const pkgRelNs =
+		"http://schemas.openxmlformats.org/package/2006/relationships";
+
+	return createZip([
+		{
+			name: "[Content_Types].xml",
+			content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+		},
+		{
+			name: "_rels/.rels",
+			content: `${xml}<Relationships xmlns="${pkgRelNs}"><Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+		},
+		{
+			name: "xl/workbook.xml",
+			content: `${xml}<workbook xmlns="${mainNs}" xmlns:r="${relNs}"><sheets><sheet name="${escapeXml(sheetTitle(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+		},
+		{
+			name: "xl/_rels/workbook.xml.rels",
+			content: `${xml}<Relationships xmlns="${pkgRelNs}"><Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+		},
+		{
+			name: "xl/worksheets/sheet1.xml",
+			content: `${xml}<worksheet xmlns="${mainNs}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+		},
+	]);
+}
@@ -46,11 +46,18 @@ export * from "./data/files/useFileDownload";
 export * from "./data/files/useFilePicker";
 export * from "./data/files/useFileReader";
 export * from "./data/files/useImageUpload";
+export * from "./data/files/useImport";
+export * from "./data/filters/filterTree";
 export * from "./data/filters/useFilter";
 // export * from './data/utils/useSort'
 // export * from './data/utils/useSearch'
+export * from "./data/tables/grouping";
+export * from "./data/tables/useColumnLayout";
 export * from "./data/tables/usePagination";
 export * from "./data/tables/useTable";
+export * from "./data/tables/useTableEdit";
+export * from "./data/tables/useTableUrlSync";
+export * from "./data/tables/useVirtualList";
 export * from "./ui/animation/useIntervalFn";
 export * from "./ui/animation/useTimeoutFn";
 // Animation
@@ -71,7 +78,10 @@ export * from "./utils/time/useTimer";
 // export * from './network/useNetwork'
 
 // Form
+export * from "./ui/form/useFieldArray";
 export * from "./ui/form/useForm";
+export * from "./ui/form/useFormDraft";
+export * from "./ui/form/useFormWizard";
 export * from "./ui/interactions";
 // UI
 export * from "./ui/utilities/useResize";
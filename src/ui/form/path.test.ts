@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+	cloneDeep,
+	flattenPaths,
+	getIn,
+	isPathWithin,
+	normalizePath,
+	setIn,
+} from "./path";
+
+describe("path", () => {
+	it("should normalize dot and bracket paths", () => {
+		expect(normalizePath("guests.2.email")).toBe("guests[2].email");
+		expect(normalizePath("guests[2].email")).toBe("guests[2].email");
+		expect(normalizePath("address.postcode")).toBe("address.postcode");
+	});
+
+	it("should get and set nested values", () => {
+		const target: Record<string, any> = {};
+		setIn(target, "guests[1].email", "ada@example.com");
+
+		expect(Array.isArray(target["guests"])).toBe(true);
+		expect(getIn(target, "guests.1.email")).toBe("ada@example.com");
+		expect(getIn(target, "missing.path")).toBeUndefined();
+	});
+
+	it("should deep clone plain objects and arrays", () => {
+		const date = new Date();
+		const source = { nested: { list: [1, 2] }, date };
+		const clone = cloneDeep(source);
+
+		expect(clone).toEqual(source);
+		expect(clone.nested.list).not.toBe(source.nested.list);
+		expect(clone.date).toBe(date);
+	});
+
+	it("should flatten nested leaves into paths", () => {
+		const isString = (value: unknown): value is string =>
+			typeof value === "string";
+
+		expect(
+			flattenPaths(
+				{ address: { city: "Required" }, "guests.0.email": "Invalid" },
+				isString,
+			),
+		).toEqual({ "address.city": "Required", "guests[0].email": "Invalid" });
+	});
+
+	it("should check whether a path is nested in another", () => {
+		expect(isPathWithin("guests[0].email", "guests")).toBe(true);
+		expect(isPathWithin("guests[0]", "guests[0]")).toBe(true);
+		expect(isPathWithin("guestsCount", "guests")).toBe(false);
+	});
+});
@@ -0,0 +1,92 @@
+// Helpers for dot/bracket field paths such as `guests[2].email`.
+
+export type FieldPath<T> = keyof T | (string & {});
+
+export function toPathSegments(path: PropertyKey): string[] {
+	return String(path)
+		.replace(/\[(\w+)\]/g, ".$1")
+		.split(".")
+		.filter(Boolean);
+}
+
+const isIndex = (segment: string) => /^\d+$/.test(segment);
+
+/**
+ * Canonical form used as the key of errors, touched and dirty state:
+ * `guests.2.email` and `guests[2].email` both become `guests[2].email`.
+ */
+export function normalizePath(path: PropertyKey): string {
+	return toPathSegments(path).reduce(
+		(result, segment) =>
+			isIndex(segment)
+				? `${result}[${segment}]`
+				: result
+					? `${result}.${segment}`
+					: segment,
+		"",
+	);
+}
+
+export function getIn(source: unknown, path: PropertyKey): any {
+	return toPathSegments(path).reduce<any>(
+		(value, segment) => (value == null ? undefined : value[segment]),
+		source,
+	);
+}
+
+// Missing containers are created as arrays or objects based on the next key
+export function setIn(target: any, path: PropertyKey, value: unknown) {
+	const segments = toPathSegments(path);
+	let current = target;
+
+	segments.forEach((segment, i) => {
+		if (i === segments.length - 1) {
+			current[segment] = value;
+			return;
+		}
+		if (current[segment] == null || typeof current[segment] !== "object") {
+			current[segment] = isIndex(segments[i + 1]!) ? [] : {};
+		}
+		current = current[segment];
+	});
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	Object.prototype.toString.call(value) === "[object Object]";
+
+export function cloneDeep<T>(value: T): T {
+	if (Array.isArray(value)) return value.map(cloneDeep) as T;
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, cloneDeep(item)]),
+		) as T;
+	}
+	return value;
+}
+
+/**
+ * Turns nested error objects into path keys, so `{ guests: [{ email }] }`
+ * becomes `{ "guests[0].email": email }`. Path keys pass through as is.
+ */
+export function flattenPaths<V>(
+	source: Record<string, any>,
+	isLeaf: (value: unknown) => value is V,
+	prefix = "",
+): Record<string, V> {
+	const result: Record<string, V> = {};
+
+	Object.entries(source).forEach(([key, value]) => {
+		const path = normalizePath(prefix ? `${prefix}.${key}` : key);
+		if (isLeaf(value)) {
+			result[path] = value;
+		} else if (value && typeof value === "object") {
+			Object.assign(result, flattenPaths(value, isLeaf, path));
+		}
+	});
+	return result;
+}
+
+export const isPathWithin = (path: string, parent: string) =>
+	path === parent ||
+	path.startsWith(`${parent}.`) ||
+	path.startsWith(`${parent}[`);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { useFieldArray } from "./useFieldArray";
+import { useForm } from "./useForm";
+
+interface Guest {
+	name: string;
+	email: string;
+}
+
+const createForm = () =>
+	useForm({
+		guests: [
+			{ name: "Ada", email: "ada@example.com" },
+			{ name: "Grace", email: "grace@example.com" },
+			{ name: "Linus", email: "linus@example.com" },
+		] as Guest[],
+	});
+
+const names = (form: ReturnType<typeof createForm>) =>
+	form.values.value.guests.map((guest) => guest.name);
+
+describe("useFieldArray", () => {
+	it("should expose items with paths and stable keys", () => {
+		const form = createForm();
+		const { fields } = useFieldArray<any, Guest>(form, "guests");
+
+		expect(fields.value.map((field) => field.path)).toEqual([
+			"guests[0]",
+			"guests[1]",
+			"guests[2]",
+		]);
+		expect(new Set(fields.value.map((field) => field.key)).size).toBe(3);
+	});
+
+	it("should append and remove items", () => {
+		const form = createForm();
+		const { fields, append, remove } = useFieldArray<any, Guest>(
+			form,
+			"guests",
+		);
+
+		append({ name: "Barbara", email: "" });
+		expect(fields.value).toHaveLength(4);
+		expect(form.dirty.value.guests).toBe(true);
+
+		remove(0);
+		expect(names(form)).toEqual(["Grace", "Linus", "Barbara"]);
+	});
+
+	it("should keep item state aligned when removing", () => {
+		const form = createForm();
+		const { remove } = useFieldArray(form, "guests");
+
+		form.setError("guests[2].email", "Invalid email");
+		form.setTouched("guests[0].name", true);
+		remove(0);
+
+		expect(form.errors.value).toEqual({ "guests[1].email": "Invalid email" });
+		expect(form.touched.value).toEqual({});
+	});
+
+	it("should move items together with their keys and state", () => {
+		const form = createForm();
+		const { fields, move } = useFieldArray<any, Guest>(form, "guests");
+		const keys = fields.value.map((field) => field.key);
+
+		form.setError("guests[0].email", "Taken");
+		move(0, 2);
+
+		expect(names(form)).toEqual(["Grace", "Linus", "Ada"]);
+		expect(fields.value.map((field) => field.key)).toEqual([
+			keys[1],
+			keys[2],
+			keys[0],
+		]);
+		expect(form.getError("guests[2].email")).toBe("Taken");
+	});
+
+	it("should swap items and their state", () => {
+		const form = createForm();
+		const { fields, swap } = useFieldArray<any, Guest>(form, "guests");
+		const keys = fields.value.map((field) => field.key);
+
+		form.setDirty("guests[0].name", true);
+		form.setError("guests[2].email", "Invalid email");
+		swap(0, 2);
+
+		expect(names(form)).toEqual(["Linus", "Grace", "Ada"]);
+		expect(fields.value[0]?.key).toBe(keys[2]);
+		expect(form.dirty.value["guests[2].name"]).toBe(true);
+		expect(form.errors.value).toEqual({ "guests[0].email": "Invalid email" });
+	});
+
+	it("should ignore out of range indexes", () => {
+		const form = createForm();
+		const { remove, move, swap } = useFieldArray(form, "guests");
+
+		remove(5);
+		move(0, 3);
+		swap(-1, 1);
+
+		expect(names(form)).toEqual(["Ada", "Grace", "Linus"]);
+	});
+
+	it("should follow form resets", () => {
+		const form = createForm();
+		const { fields, append } = useFieldArray<any, Guest>(form, "guests");
+
+		append({ name: "Barbara", email: "" });
+		form.reset();
+
+		expect(fields.value).toHaveLength(3);
+	});
+});
@@ -0,0 +1,128 @@
+import { computed, type Ref } from "vue";
+import { type FieldPath, normalizePath } from "./path";
+import type { FormReturn } from "./useForm";
+
+export interface FieldArrayItem<V> {
+	/** Stable id for `v-for` keys that follows the item when reordered */
+	key: string;
+	/** Path of the item, e.g. `guests[2]` */
+	path: string;
+	index: number;
+	value: V;
+}
+
+let nextKey = 0;
+const createKey = () => `field-${nextKey++}`;
+
+export function useFieldArray<T extends Record<string, any>, V = any>(
+	form: FormReturn<T>,
+	field: FieldPath<T>,
+) {
+	const base = normalizePath(field);
+	const items = computed<V[]>(() => form.getValue(base) ?? []);
+
+	let keys: string[] = [];
+
+	// Keeps keys in step with changes made outside this helper, e.g. reset()
+	const syncKeys = (length: number) => {
+		keys = keys.slice(0, length);
+		while (keys.length < length) keys.push(createKey());
+	};
+
+	const fields = computed<FieldArrayItem<V>[]>(() => {
+		syncKeys(items.value.length);
+		return items.value.map((value, index) => ({
+			key: keys[index]!,
+			path: `${base}[${index}]`,
+			index,
+			value,
+		}));
+	});
+
+	const itemPattern = new RegExp(
+		`^${base.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\[(\\d+)\\]`,
+	);
+
+	/**
+	 * Moves errors, touched and dirty flags of items to their new index.
+	 * `mapIndex` returns null for removed items.
+	 */
+	const remapState = (mapIndex: (index: number) => number | null) => {
+		const remap = <S>(state: Ref<Record<string, S>>) => {
+			const result: Record<string, S> = {};
+			Object.entries(state.value).forEach(([path, value]) => {
+				const match = itemPattern.exec(path);
+				if (!match) {
+					result[path] = value;
+					return;
+				}
+				const index = mapIndex(Number(match[1]));
+				if (index !== null) {
+					result[path.replace(itemPattern, `${base}[${index}]`)] = value;
+				}
+			});
+			state.value = result;
+		};
+
+		remap(form.errors as Ref<Record<string, string>>);
+		remap(form.touched as Ref<Record<string, boolean>>);
+		remap(form.dirty as Ref<Record<string, boolean>>);
+	};
+
+	const update = (next: V[], nextKeys: string[]) => {
+		keys = nextKeys;
+		form.setValue(base, next);
+	};
+
+	const inRange = (index: number) =>
+		index >= 0 && index < items.value.length;
+
+	// `order[i]` is the old index of the item that ends up at index i
+	const reorder = (order: number[]) => {
+		remapState((i) => order.indexOf(i));
+		update(
+			order.map((i) => items.value[i]!),
+			order.map((i) => keys[i]!),
+		);
+	};
+
+	const append = (value: V) => {
+		syncKeys(items.value.length);
+		update([...items.value, value], [...keys, createKey()]);
+	};
+
+	const remove = (index: number) => {
+		if (!inRange(index)) return;
+
+		syncKeys(items.value.length);
+		remapState((i) => (i === index ? null : i > index ? i - 1 : i));
+		update(
+			items.value.filter((_, i) => i !== index),
+			keys.filter((_, i) => i !== index),
+		);
+	};
+
+	const move = (from: number, to: number) => {
+		if (from === to || !inRange(from) || !inRange(to)) return;
+
+		syncKeys(items.value.length);
+		const order = items.value.map((_, i) => i);
+		order.splice(to, 0, ...order.splice(from, 1));
+		reorder(order);
+	};
+
+	const swap = (a: number, b: number) => {
+		if (a === b || !inRange(a) || !inRange(b)) return;
+
+		syncKeys(items.value.length);
+		reorder(items.value.map((_, i) => (i === a ? b : i === b ? a : i)));
+	};
+
+	return {
+		fields,
+		append,
+		remove,
+		move,
+		swap,
+	};
+}
@@ -68,4 +68,177 @@ describe("useForm", () => {
 		await submit(submitHandler);
 		expect(submitHandler).toHaveBeenCalledWith({ name: "John" });
 	});
+
+	describe("nested paths", () => {
+		const createBooking = () => ({
+			address: { postcode: "1011", city: "Amsterdam" },
+			guests: [{ email: "ada@example.com" }, { email: "" }],
+		});
+
+		it("should read and write values by dot and bracket paths", () => {
+			const { values, getValue, setValue, dirty } = useForm(createBooking());
+
+			setValue("address.postcode", "1012");
+			setValue("guests.1.email", "grace@example.com");
+
+			expect(values.value.address.postcode).toBe("1012");
+			expect(getValue("guests[1].email")).toBe("grace@example.com");
+			expect(dirty.value).toEqual({
+				"address.postcode": true,
+				"guests[1].email": true,
+			});
+		});
+
+		it("should not mutate the initial values", () => {
+			const initial = createBooking();
+			const { setValue, reset, values } = useForm(initial);
+
+			setValue("address.city", "Utrecht");
+			expect(initial.address.city).toBe("Amsterdam");
+
+			reset();
+			expect(values.value.address.city).toBe("Amsterdam");
+		});
+
+		it("should map nested validator errors to paths", async () => {
+			const { errors, getError, validate } = useForm(createBooking(), (v) => ({
+				address: { postcode: v.address.postcode ? undefined : "Required" },
+				guests: v.guests.map((guest) =>
+					guest.email ? {} : { email: "Email is required" },
+				),
+			}));
+
+			expect(await validate()).toBe(false);
+			expect(errors.value).toEqual({ "guests[1].email": "Email is required" });
+			expect(getError("guests.1.email")).toBe("Email is required");
+		});
+
+		it("should validate a single nested field", async () => {
+			const { errors, setError, validate } = useForm(createBooking(), () => ({
+				"guests[1].email": "Email is required",
+			}));
+
+			setError("address.city", "Unknown city");
+			expect(await validate("guests[1]")).toBe(false);
+			expect(errors.value).toEqual({
+				"address.city": "Unknown city",
+				"guests[1].email": "Email is required",
+			});
+		});
+
+		it("should reset a nested field and its state", () => {
+			const { values, setValue, setTouched, touched, resetField } = useForm(
+				createBooking(),
+			);
+
+			setValue("guests[0].email", "changed@example.com");
+			setTouched("guests[0].email");
+			resetField("guests[0]");
+
+			expect(values.value.guests[0]?.email).toBe("ada@example.com");
+			expect(touched.value).toEqual({});
+		});
+
+		it("should build field props for a path", () => {
+			const { getFieldProps, values } = useForm(createBooking());
+			const props = getFieldProps("address.city");
+
+			expect(props.value).toBe("Amsterdam");
+			props["onUpdate:modelValue"]("Rotterdam");
+			expect(values.value.address.city).toBe("Rotterdam");
+		});
+	});
+
+	describe("field rules", () => {
+		const createAccount = () => ({
+			username: "",
+			password: "secret",
+			confirm: "",
+		});
+
+		it("should pass all values to rules for cross-field checks", async () => {
+			const { setValue, validate, getError } = useForm(
+				createAccount(),
+				undefined,
+				{
+					rules: {
+						confirm: [
+							{
+								validate: (value, context) =>
+									value === context?.values.password ||
+									"Passwords do not match",
+							},
+						],
+					},
+				},
+			);
+
+			setValue("confirm", "other");
+			expect(await validate("confirm")).toBe(false);
+			expect(getError("confirm")).toBe("Passwords do not match");
+
+			setValue("confirm", "secret");
+			expect(await validate("confirm")).toBe(true);
+			expect(getError("confirm")).toBeUndefined();
+		});
+
+		it("should debounce async rules and drop stale results", async () => {
+			vi.useFakeTimers();
+			const isTaken = vi.fn(
+				(value: string) =>
+					new Promise<string | true>((resolve) => {
+						const result = value !== "taken" || "Username is taken";
+						setTimeout(() => resolve(result), 100);
+					}),
+			);
+			const { setValue, setTouched, validating, errors, getFieldProps } =
+				useForm(createAccount(), undefined, {
+					rules: { username: [{ validate: isTaken }] },
+					debounce: { username: 300 },
+				});
+
+			setTouched("username");
+			await vi.runAllTimersAsync();
+			isTaken.mockClear();
+
+			setValue("username", "ta");
+			setValue("username", "taken");
+			expect(validating.value["username"]).toBe(true);
+			expect(getFieldProps("username").validating).toBe(true);
+
+			await vi.advanceTimersByTimeAsync(300);
+			expect(isTaken).toHaveBeenCalledTimes(1);
+			expect(isTaken).toHaveBeenCalledWith("taken", expect.anything());
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(validating.value["username"]).toBeUndefined();
+			expect(errors.value).toEqual({ username: "Username is taken" });
+			vi.useRealTimers();
+		});
+
+		it("should resolve a superseded check with the latest result", async () => {
+			const resolvers: ((result: string | true) => void)[] = [];
+			const { validate, errors } = useForm(createAccount(), undefined, {
+				rules: {
+					username: [
+						{
+							validate: () =>
+								new Promise<string | true>((resolve) => {
+									resolvers.push(resolve);
+								}),
+						},
+					],
+				},
+			});
+
+			const first = validate("username");
+			const second = validate("username");
+			resolvers[1]?.("Taken");
+			resolvers[0]?.(true);
+
+			expect(await first).toBe(false);
+			expect(await second).toBe(false);
+			expect(errors.value).toEqual({ username: "Taken" });
+		});
+	});
 });
@@ -1,4 +1,31 @@
 import { type ComputedRef, computed, type Ref, ref } from "vue";
+import { createValidationRunner, runRules } from "../validation/runRules";
+import type { FormValidationRule } from "../validation/types";
+import {
+	cloneDeep,
+	type FieldPath,
+	flattenPaths,
+	getIn,
+	isPathWithin,
+	normalizePath,
+	setIn,
+} from "./path";
+
+export type { FieldPath } from "./path";
+
+/**
+ * Field state keyed by normalized path, e.g. `errors["guests[2].email"]`.
+ */
+export type FieldRecord<T, V> = Partial<Record<keyof T, V>> & {
+	[path: string]: V | undefined;
+};
+
+/**
+ * Validators may return path keys, nested objects or a mix of both.
+ */
+export type FormValidator<T> = (
+	values: T,
+) => Record<string, any> | Promise<Record<string, any>>;
 
 export interface FormField {
 	value: any;
@@ -13,30 +40,43 @@ export interface FormOptions<T extends Record<string, any>> {
 	validateOnChange?: boolean;
 	validateOnBlur?: boolean;
 	resetOnSubmit?: boolean;
+	/**
+	 * Rules keyed by field path. They run after `validator` and receive all
+	 * values, so they can compare fields or check a server.
+	 */
+	rules?: Record<string, FormValidationRule<any, T>[]>;
+	/** Delay in ms before a changed field is validated, for all or per path */
+	debounce?: number | Record<string, number>;
 }
 
 export interface FormReturn<T extends Record<string, any>> {
 	values: Ref<T>;
-	errors: Ref<Partial<Record<keyof T, string>>>;
-	touched: Ref<Partial<Record<keyof T, boolean>>>;
-	dirty: Ref<Partial<Record<keyof T, boolean>>>;
+	errors: Ref<FieldRecord<T, string>>;
+	touched: Ref<FieldRecord<T, boolean>>;
+	dirty: Ref<FieldRecord<T, boolean>>;
+	/** Fields with a debounced or async check in flight */
+	validating: ComputedRef<FieldRecord<T, boolean>>;
 	isValid: ComputedRef<boolean>;
 	isDirty: ComputedRef<boolean>;
+	isValidating: ComputedRef<boolean>;
 	isSubmitting: Ref<boolean>;
-	setValue: (field: keyof T, value: any) => void;
-	setError: (field: keyof T, error?: string) => void;
-	setTouched: (field: keyof T, touched?: boolean) => void;
-	setDirty: (field: keyof T, dirty?: boolean) => void;
-	validate: (field?: keyof T) => Promise<boolean>;
+	getValue: (field: FieldPath<T>) => any;
+	getError: (field: FieldPath<T>) => string | undefined;
+	setValue: (field: FieldPath<T>, value: any) => void;
+	setError: (field: FieldPath<T>, error?: string) => void;
+	setTouched: (field: FieldPath<T>, touched?: boolean) => void;
+	setDirty: (field: FieldPath<T>, dirty?: boolean) => void;
+	validate: (field?: FieldPath<T>) => Promise<boolean>;
 	validateAll: () => Promise<boolean>;
 	reset: () => void;
-	resetField: (field: keyof T) => void;
+	resetField: (field: FieldPath<T>) => void;
 	submit: (handler: (values: T) => Promise<void> | void) => Promise<void>;
-	getFieldProps: (field: keyof T) => {
+	getFieldProps: (field: FieldPath<T>) => {
 		value: any;
 		error: string | undefined;
 		touched: boolean | undefined;
 		dirty: boolean | undefined;
+		validating: boolean;
 		"onUpdate:modelValue": (value: any) => void;
 		onBlur: () => void;
 		onChange: () => void;
@@ -45,99 +85,164 @@ export interface FormReturn<T extends Record<string, any>> {
 
 export function useForm<T extends Record<string, any>>(
 	initialValues: T,
-	validator?: (
-		values: T,
-	) =>
-		| Partial<Record<keyof T, string>>
-		| Promise<Partial<Record<keyof T, string>>>,
+	validator?: FormValidator<T>,
 	options: FormOptions<T> = {},
 ): FormReturn<T> {
 	const {
 		validateOnChange = true,
 		validateOnBlur = true,
 		resetOnSubmit = false,
+		debounce = 0,
 	} = options;
+	const rules = Object.fromEntries(
+		Object.entries(options.rules ?? {}).map(([path, pathRules]) => [
+			normalizePath(path),
+			pathRules,
+		]),
+	);
 
-	const values = ref<T>({ ...initialValues }) as Ref<T>;
-	const errors = ref<Partial<Record<keyof T, string>>>({}) as Ref<
-		Partial<Record<keyof T, string>>
-	>;
-	const touched = ref<Partial<Record<keyof T, boolean>>>({}) as Ref<
-		Partial<Record<keyof T, boolean>>
-	>;
-	const dirty = ref<Partial<Record<keyof T, boolean>>>({}) as Ref<
-		Partial<Record<keyof T, boolean>>
-	>;
+	const values = ref<T>(cloneDeep(initialValues)) as Ref<T>;
+	// Keyed by normalized path
+	const errors = ref<Record<string, string>>({});
+	const touched = ref<Record<string, boolean>>({});
+	const dirty = ref<Record<string, boolean>>({});
 	const isSubmitting = ref(false);
 
 	const isValid = computed(() => Object.keys(errors.value).length === 0);
 	const isDirty = computed(() => Object.values(dirty.value).some(Boolean));
 
-	const setValue = (field: keyof T, value: any) => {
-		values.value[field] = value;
-		dirty.value[field] = true;
+	// Checks are keyed by the validated path, "" being the whole form
+	const runner = createValidationRunner();
+	const validating = computed(() => {
+		const { "": _form, ...fields } = runner.validating.value;
+		return fields;
+	});
+	const isValidating = computed(() =>
+		Object.values(runner.validating.value).some(Boolean),
+	);
+
+	const getDelay = (path: string) =>
+		typeof debounce === "number" ? debounce : (debounce[path] ?? 0);
+
+	const getValue = (field: FieldPath<T>) => getIn(values.value, field);
 
-		if (validateOnChange && touched.value[field]) {
-			validate(field);
+	const getError = (field: FieldPath<T>) =>
+		errors.value[normalizePath(field)];
+
+	const setValue = (field: FieldPath<T>, value: any) => {
+		const path = normalizePath(field);
+		setIn(values.value, path, value);
+		dirty.value[path] = true;
+
+		if (validateOnChange && touched.value[path]) {
+			runValidation(path, getDelay(path));
 		}
 	};
 
-	const setError = (field: keyof T, error?: string) => {
+	const setError = (field: FieldPath<T>, error?: string) => {
+		const path = normalizePath(field);
 		if (error) {
-			errors.value[field] = error;
+			errors.value[path] = error;
 		} else {
-			delete errors.value[field];
+			delete errors.value[path];
 		}
 	};
 
-	const setTouched = (field: keyof T, touchedValue = true) => {
-		touched.value[field] = touchedValue;
+	const setTouched = (field: FieldPath<T>, touchedValue = true) => {
+		const path = normalizePath(field);
+		touched.value[path] = touchedValue;
 
 		if (validateOnBlur && touchedValue) {
-			validate(field);
+			validate(path);
 		}
 	};
 
-	const setDirty = (field: keyof T, dirtyValue = true) => {
-		dirty.value[field] = dirtyValue;
+	const setDirty = (field: FieldPath<T>, dirtyValue = true) => {
+		dirty.value[normalizePath(field)] = dirtyValue;
 	};
 
-	const validate = async (field?: keyof T): Promise<boolean> => {
-		if (!validator) return true;
+	const isErrorMessage = (value: unknown): value is string =>
+		typeof value === "string" && value !== "";
 
-		try {
-			const validationErrors = await validator(values.value);
-
-			if (field) {
-				setError(field, validationErrors[field]);
-				return !validationErrors[field];
-			} else {
-				errors.value = validationErrors;
-				return Object.keys(validationErrors).length === 0;
-			}
-		} catch (error) {
-			console.error("Validation error:", error);
-			return false;
+	const omitWithin = <V>(record: Record<string, V>, path: string) =>
+		Object.fromEntries(
+			Object.entries(record).filter(([key]) => !isPathWithin(key, path)),
+		);
+
+	const collectErrors = async (path: string, signal: AbortSignal) => {
+		const within = (key: string) => !path || isPathWithin(key, path);
+		const result: Record<string, string> = {};
+
+		if (validator) {
+			const validationErrors = flattenPaths(
+				await validator(values.value),
+				isErrorMessage,
+			);
+			Object.entries(validationErrors)
+				.filter(([key]) => within(key))
+				.forEach(([key, message]) => {
+					result[key] = message;
+				});
 		}
+
+		const rulePaths = Object.keys(rules).filter(within);
+		await Promise.all(
+			rulePaths.map(async (rulePath) => {
+				if (signal.aborted) return;
+				const message = await runRules(
+					rules[rulePath]!,
+					getIn(values.value, rulePath),
+					{ values: values.value, field: rulePath, signal },
+				);
+				if (message) result[rulePath] = message;
+			}),
+		);
+		return result;
+	};
+
+	// Replaces the errors of the path and anything nested in it
+	const applyErrors = (path: string, fieldErrors: Record<string, string>) => {
+		errors.value = {
+			...(path ? omitWithin(errors.value, path) : {}),
+			...fieldErrors,
+		};
+		return Object.keys(fieldErrors).length === 0;
 	};
 
+	const runValidation = async (path: string, delay = 0) => {
+		if (!validator && Object.keys(rules).length === 0) return true;
+
+		return runner.run(
+			path,
+			(signal) => collectErrors(path, signal),
+			(fieldErrors) => applyErrors(path, fieldErrors),
+			delay,
+		);
+	};
+
+	const validate = (field?: FieldPath<T>): Promise<boolean> =>
+		runValidation(field === undefined ? "" : normalizePath(field));
+
 	const validateAll = async (): Promise<boolean> => {
 		return validate();
 	};
 
 	const reset = () => {
-		values.value = { ...initialValues };
+		runner.cancel();
+		values.value = cloneDeep(initialValues);
 		errors.value = {};
 		touched.value = {};
 		dirty.value = {};
 		isSubmitting.value = false;
 	};
 
-	const resetField = (field: keyof T) => {
-		values.value[field] = initialValues[field];
-		delete errors.value[field];
-		delete touched.value[field];
-		delete dirty.value[field];
+	const resetField = (field: FieldPath<T>) => {
+		const path = normalizePath(field);
+		runner.cancel(path);
+		setIn(values.value, path, cloneDeep(getIn(initialValues, path)));
+		errors.value = omitWithin(errors.value, path);
+		touched.value = omitWithin(touched.value, path);
+		dirty.value = omitWithin(dirty.value, path);
 	};
 
 	const submit = async (handler: (values: T) => Promise<void> | void) => {
@@ -160,12 +265,14 @@ export function useForm<T extends Record<string, any>>(
 		}
 	};
 
-	const getFieldProps = (field: keyof T) => {
+	const getFieldProps = (field: FieldPath<T>) => {
+		const path = normalizePath(field);
 		return {
-			value: values.value[field],
-			error: errors.value[field],
-			touched: touched.value[field],
-			dirty: dirty.value[field],
+			value: getIn(values.value, path),
+			error: errors.value[path],
+			touched: touched.value[path],
+			dirty: dirty.value[path],
+			validating: !!validating.value[path],
 			"onUpdate:modelValue": (value: any) => setValue(field, value),
 			onBlur: () => setTouched(field, true),
 			onChange: () => setDirty(field, true),
@@ -174,12 +281,16 @@ export function useForm<T extends Record<string, any>>(
 
 	return {
 		values,
-		errors,
-		touched,
-		dirty,
+		errors: errors as Ref<FieldRecord<T, string>>,
+		touched: touched as Ref<FieldRecord<T, boolean>>,
+		dirty: dirty as Ref<FieldRecord<T, boolean>>,
+		validating: validating as ComputedRef<FieldRecord<T, boolean>>,
 		isValid,
 		isDirty,
+		isValidating,
 		isSubmitting,
+		getValue,
+		getError,
 		setValue,
 		setError,
 		setTouched,
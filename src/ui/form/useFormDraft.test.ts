@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { nextTick } from "vue";
+import { useForm } from "./useForm";
+import { type FormDraft, useFormDraft } from "./useFormDraft";
+
+interface Amendment {
+	reference: string;
+	notes: string;
+}
+
+const KEY = "form-draft:amendment";
+
+const createForm = () =>
+	useForm<Amendment>({ reference: "BK-1001", notes: "" });
+
+const storeDraft = (draft: Partial<FormDraft<Amendment>>) => {
+	localStorage.setItem(
+		KEY,
+		JSON.stringify({
+			version: 1,
+			savedAt: Date.now(),
+			values: { reference: "BK-1001", notes: "Late check-in" },
+			...draft,
+		}),
+	);
+};
+
+describe("useFormDraft", () => {
+	const confirm = vi.fn<() => Promise<boolean>>();
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		localStorage.clear();
+		confirm.mockReset();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should autosave dirty values after the debounce delay", async () => {
+		const form = createForm();
+		const { lastSavedAt, stop } = useFormDraft(form, {
+			key: "amendment",
+			delay: 500,
+			confirm,
+		});
+
+		form.setValue("notes", "Late check-in");
+		await nextTick();
+		expect(localStorage.getItem(KEY)).toBeNull();
+
+		await vi.advanceTimersByTimeAsync(500);
+		const saved = JSON.parse(localStorage.getItem(KEY)!);
+		expect(saved.values.notes).toBe("Late check-in");
+		expect(saved.version).toBe(1);
+		expect(lastSavedAt.value).toBe(saved.savedAt);
+		stop();
+	});
+
+	it("should offer a found draft and restore it", async () => {
+		storeDraft({});
+		const form = createForm();
+		const { draft, restore, stop } = useFormDraft(form, {
+			key: "amendment",
+			confirm,
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(draft.value?.values.notes).toBe("Late check-in");
+		expect(form.values.value.notes).toBe("");
+
+		expect(restore()).toBe(true);
+		expect(form.values.value.notes).toBe("Late check-in");
+		expect(form.isDirty.value).toBe(true);
+		expect(draft.value).toBeNull();
+		stop();
+	});
+
+	it("should ask before restoring when confirmRestore is set", async () => {
+		storeDraft({});
+		confirm.mockResolvedValue(false);
+		const form = createForm();
+		const { stop } = useFormDraft(form, {
+			key: "amendment",
+			confirmRestore: true,
+			confirm,
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(confirm).toHaveBeenCalledWith(
+			expect.objectContaining({ title: "Restore draft?" }),
+		);
+		expect(form.values.value.notes).toBe("");
+		expect(localStorage.getItem(KEY)).toBeNull();
+		stop();
+	});
+
+	it("should discard expired drafts and other versions", async () => {
+		storeDraft({ savedAt: Date.now() - 2000 });
+		const expired = useFormDraft(createForm(), {
+			key: "amendment",
+			ttl: 1000,
+			confirm,
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(expired.draft.value).toBeNull();
+		expect(localStorage.getItem(KEY)).toBeNull();
+		expired.stop();
+
+		storeDraft({ version: 1 });
+		const upgraded = useFormDraft(createForm(), {
+			key: "amendment",
+			version: 2,
+			confirm,
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(upgraded.draft.value).toBeNull();
+		upgraded.stop();
+	});
+
+	it("should guard unloads and confirm leaving while dirty", async () => {
+		const form = createForm();
+		const { confirmLeave, stop } = useFormDraft(form, {
+			key: "amendment",
+			confirm,
+		});
+
+		expect(await confirmLeave()).toBe(true);
+		expect(confirm).not.toHaveBeenCalled();
+
+		form.setValue("notes", "Changed");
+		const event = new Event("beforeunload", { cancelable: true });
+		window.dispatchEvent(event);
+		expect(event.defaultPrevented).toBe(true);
+		// Pending changes are saved on the way out
+		expect(localStorage.getItem(KEY)).not.toBeNull();
+
+		confirm.mockResolvedValue(false);
+		expect(await confirmLeave()).toBe(false);
+		expect(confirm).toHaveBeenCalledWith(
+			expect.objectContaining({ confirmText: "Leave", type: "warning" }),
+		);
+		stop();
+	});
+
+	it("should clear the draft when the form is reset", async () => {
+		const form = createForm();
+		const { stop } = useFormDraft(form, { key: "amendment", confirm });
+
+		form.setValue("notes", "Changed");
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(localStorage.getItem(KEY)).not.toBeNull();
+
+		form.reset();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(localStorage.getItem(KEY)).toBeNull();
+		stop();
+	});
+});
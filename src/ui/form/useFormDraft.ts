@@ -0,0 +1,280 @@
+import {
+	getCurrentInstance,
+	onMounted,
+	onUnmounted,
+	type Ref,
+	ref,
+	watch,
+} from "vue";
+import { useIndexedDB } from "../../browser/storage/storage/useIndexedDB";
+import { useDebounceFn } from "../../utils/time/useDebounceFn";
+import { cloneDeep } from "./path";
+import { type ConfirmOptions, useGlobalConfirm } from "./useConfirm";
+import type { FormReturn } from "./useForm";
+
+export interface FormDraft<T> {
+	version: string | number;
+	/** Epoch milliseconds */
+	savedAt: number;
+	values: T;
+}
+
+type MaybeDraft<T> = FormDraft<T> | null | undefined;
+
+export interface DraftStore<T> {
+	get: (key: string) => MaybeDraft<T> | Promise<MaybeDraft<T>>;
+	set: (key: string, draft: FormDraft<T>) => void | Promise<unknown>;
+	remove: (key: string) => void | Promise<unknown>;
+}
+
+export interface UseFormDraftOptions<T> {
+	/** The draft is stored under `form-draft:<key>` */
+	key: string;
+	storage?: "localStorage" | "indexedDB" | DraftStore<T>;
+	/** Debounce delay of autosave in ms */
+	delay?: number;
+	/** Drafts older than this many ms are discarded */
+	ttl?: number;
+	/** Drafts saved under another version are discarded */
+	version?: string | number;
+	/** Warns before closing the tab while the form is dirty */
+	guard?: boolean;
+	/** Asks before restoring a found draft instead of leaving it to the app */
+	confirmRestore?: boolean | ConfirmOptions;
+	/** Dialog shown by `confirmLeave()` */
+	leaveOptions?: ConfirmOptions;
+	/** Defaults to the global `useConfirm` instance */
+	confirm?: (options: ConfirmOptions) => Promise<boolean>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createLocalStore = <T>(): DraftStore<T> => ({
+	get: (key) => {
+		const item = window.localStorage.getItem(key);
+		return item === null ? null : JSON.parse(item);
+	},
+	set: (key, draft) => {
+		window.localStorage.setItem(key, JSON.stringify(draft));
+	},
+	remove: (key) => {
+		window.localStorage.removeItem(key);
+	},
+});
+
+const createIndexedDBStore = <T>(): DraftStore<T> => {
+	const db = useIndexedDB<FormDraft<T> & { key: string }>({
+		dbName: "form-drafts",
+		storeName: "drafts",
+		keyPath: "key",
+	});
+	return {
+		get: async (key) => {
+			const record = await db.get(key);
+			if (!record) return null;
+			const { key: _key, ...draft } = record;
+			return draft;
+		},
+		set: (key, draft) => db.update({ ...draft, key }),
+		remove: (key) => db.remove(key),
+	};
+};
+
+export function useFormDraft<T extends Record<string, any>>(
+	form: FormReturn<T>,
+	options: UseFormDraftOptions<T>,
+) {
+	const {
+		delay = 1000,
+		ttl = 7 * DAY,
+		version = 1,
+		guard = true,
+		confirmRestore = false,
+		leaveOptions,
+	} = options;
+	const key = `form-draft:${options.key}`;
+	const store =
+		options.storage === "indexedDB"
+			? createIndexedDBStore<T>()
+			: typeof options.storage === "object"
+				? options.storage
+				: createLocalStore<T>();
+	const confirm = options.confirm ?? useGlobalConfirm().confirm;
+
+	/** A stored draft waiting for `restore()` or `discard()` */
+	const draft = ref(null) as Ref<FormDraft<T> | null>;
+	const lastSavedAt = ref<number | null>(null);
+	const error = ref<Error | null>(null);
+
+	const handleError = (e: unknown) => {
+		error.value = e instanceof Error ? e : new Error(String(e));
+	};
+
+	const persist = async () => {
+		try {
+			const saved: FormDraft<T> = {
+				version,
+				savedAt: Date.now(),
+				values: cloneDeep(form.values.value),
+			};
+			await store.set(key, saved);
+			lastSavedAt.value = saved.savedAt;
+		} catch (e) {
+			handleError(e);
+		}
+	};
+
+	const { debouncedFn, cancel, isPending } = useDebounceFn(persist, { delay });
+
+	// Saves right away instead of waiting for the debounce
+	const save = () => {
+		cancel();
+		return persist();
+	};
+
+	/** Removes the stored draft, e.g. after a successful submit */
+	const clear = async () => {
+		cancel();
+		draft.value = null;
+		lastSavedAt.value = null;
+		try {
+			await store.remove(key);
+		} catch (e) {
+			handleError(e);
+		}
+	};
+
+	const isUsable = (found: MaybeDraft<T>) =>
+		!!found &&
+		found.version === version &&
+		Date.now() - found.savedAt <= ttl;
+
+	const load = async () => {
+		try {
+			const found = await store.get(key);
+			if (!isUsable(found)) {
+				if (found) await store.remove(key);
+				return null;
+			}
+			draft.value = found!;
+			return found!;
+		} catch (e) {
+			handleError(e);
+			return null;
+		}
+	};
+
+	const restore = () => {
+		const found = draft.value;
+		if (!found) return false;
+
+		const current = form.values.value;
+		form.values.value = cloneDeep(found.values);
+		// Restored fields count as changes, so the leave guard covers them
+		Object.keys(found.values).forEach((field) => {
+			const value = JSON.stringify(found.values[field]);
+			if (value !== JSON.stringify(current[field])) {
+				form.setDirty(field, true);
+			}
+		});
+		draft.value = null;
+		return true;
+	};
+
+	const discard = () => clear();
+
+	const offerRestore = async () => {
+		const found = await load();
+		if (!found || !confirmRestore) return;
+
+		const restoreOptions = confirmRestore === true ? {} : confirmRestore;
+		const savedAt = new Date(found.savedAt).toLocaleString();
+		const accepted = await confirm({
+			title: "Restore draft?",
+			message: `You have unsaved changes from ${savedAt}.`,
+			confirmText: "Restore",
+			cancelText: "Discard",
+			...restoreOptions,
+		});
+		if (accepted) {
+			restore();
+		} else {
+			await discard();
+		}
+	};
+
+	const stopWatch = watch(
+		form.values,
+		() => {
+			if (form.isDirty.value) {
+				debouncedFn();
+			}
+		},
+		{ deep: true },
+	);
+
+	// A form that is back to pristine, e.g. after reset(), has no draft
+	const stopDirtyWatch = watch(form.isDirty, (dirty) => {
+		if (!dirty && !draft.value) clear();
+	});
+
+	/**
+	 * Resolves true when it's safe to navigate away: the form is clean or
+	 * the user confirmed. Use it in route guards.
+	 */
+	const confirmLeave = async (overrides: ConfirmOptions = {}) => {
+		if (!form.isDirty.value) return true;
+
+		return confirm({
+			title: "Leave this page?",
+			message: "You have unsaved changes that will be lost.",
+			confirmText: "Leave",
+			cancelText: "Stay",
+			type: "warning",
+			...leaveOptions,
+			...overrides,
+		});
+	};
+
+	const onBeforeUnload = (e: BeforeUnloadEvent) => {
+		if (!form.isDirty.value) return;
+		save();
+		if (guard) {
+			e.preventDefault();
+			e.returnValue = "";
+		}
+	};
+
+	if (typeof window !== "undefined") {
+		window.addEventListener("beforeunload", onBeforeUnload);
+	}
+
+	const stop = () => {
+		stopWatch();
+		stopDirtyWatch();
+		cancel();
+		if (typeof window !== "undefined") {
+			window.removeEventListener("beforeunload", onBeforeUnload);
+		}
+	};
+
+	if (getCurrentInstance()) {
+		onMounted(offerRestore);
+		onUnmounted(stop);
+	} else {
+		offerRestore();
+	}
+
+	return {
+		draft,
+		lastSavedAt,
+		isPending,
+		error,
+		save,
+		restore,
+		discard,
+		clear,
+		confirmLeave,
+		stop,
+	};
+}
@@ -0,0 +1,213 @@
+import { mount } from "@vue/test-utils";
+import { afterEach, describe, expect, it } from "vitest";
+import { nextTick } from "vue";
+import { useFormWizard, type WizardStep } from "./useFormWizard";
+
+interface Booking {
+	checkIn: string;
+	guests: number;
+	stayType: "overnight" | "day";
+	extras: string[];
+	cardNumber: string;
+}
+
+const initialBooking = (): Booking => ({
+	checkIn: "",
+	guests: 1,
+	stayType: "overnight",
+	extras: [],
+	cardNumber: "",
+});
+
+const steps: WizardStep<Booking>[] = [
+	{
+		id: "dates",
+		fields: ["checkIn"],
+		validator: (values) =>
+			values.checkIn ? {} : { checkIn: "Pick a check-in date" },
+	},
+	{
+		id: "guests",
+		fields: ["guests"],
+		validator: (values) =>
+			values.guests > 0 ? {} : { guests: "At least one guest" },
+	},
+	{
+		id: "extras",
+		when: (values) => values.stayType === "overnight",
+	},
+	{
+		id: "payment",
+		fields: ["cardNumber"],
+		validator: (values) =>
+			values.cardNumber ? {} : { cardNumber: "Card is required" },
+	},
+];
+
+describe("useFormWizard", () => {
+	afterEach(() => {
+		sessionStorage.clear();
+	});
+
+	it("should block next until the current step validates", async () => {
+		const { form, next, currentStep, isStepComplete } = useFormWizard(
+			initialBooking(),
+			steps,
+		);
+
+		expect(await next()).toBe(false);
+		expect(currentStep.value?.id).toBe("dates");
+		expect(form.getError("checkIn")).toBe("Pick a check-in date");
+		expect(form.touched.value.checkIn).toBe(true);
+
+		form.setValue("checkIn", "2026-07-01");
+		expect(await next()).toBe(true);
+		expect(currentStep.value?.id).toBe("guests");
+		expect(isStepComplete("dates")).toBe(true);
+	});
+
+	it("should block on step validator errors outside its fields", async () => {
+		const { form, next, currentStep } = useFormWizard(
+			{ ...initialBooking(), extras: ["breakfast", "parking", "spa"] },
+			[
+				{
+					id: "extras",
+					validator: (values) =>
+						values.extras.length <= 2 ? {} : { extras: "Pick up to two" },
+				},
+				{ id: "payment" },
+			],
+		);
+
+		expect(await next()).toBe(false);
+		expect(currentStep.value?.id).toBe("extras");
+		expect(form.getError("extras")).toBe("Pick up to two");
+		expect(form.touched.value.extras).toBe(true);
+
+		form.setValue("extras", ["breakfast"]);
+		expect(await next()).toBe(true);
+		expect(currentStep.value?.id).toBe("payment");
+	});
+
+	it("should run each step validator once per next", async () => {
+		let calls = 0;
+		const { form, next } = useFormWizard(initialBooking(), [
+			{
+				id: "dates",
+				fields: ["checkIn", "guests"],
+				validator: (values) => {
+					calls++;
+					return values.checkIn ? {} : { checkIn: "Pick a check-in date" };
+				},
+			},
+			{ id: "payment" },
+		]);
+
+		form.setValue("checkIn", "2026-07-01");
+		expect(await next()).toBe(true);
+		expect(calls).toBe(1);
+	});
+
+	it("should skip steps whose condition fails", async () => {
+		const { form, next, prev, currentStep, steps: states } = useFormWizard(
+			{ ...initialBooking(), checkIn: "2026-07-01", stayType: "day" },
+			steps,
+		);
+
+		await next();
+		await next();
+		expect(currentStep.value?.id).toBe("payment");
+		expect(states.value.find((step) => step.id === "extras")?.isSkipped).toBe(
+			true,
+		);
+
+		form.setValue("stayType", "overnight");
+		prev();
+		expect(currentStep.value?.id).toBe("extras");
+	});
+
+	it("should only jump forward past completed steps", async () => {
+		const { form, goTo, next, currentStep } = useFormWizard(
+			initialBooking(),
+			steps,
+		);
+
+		expect(goTo("payment")).toBe(false);
+
+		form.setValue("checkIn", "2026-07-01");
+		await next();
+		await next();
+		expect(goTo("dates")).toBe(true);
+		expect(goTo("extras")).toBe(true);
+		expect(currentStep.value?.id).toBe("extras");
+	});
+
+	it("should stop submit at the first invalid step", async () => {
+		const { form, submit, currentStep } = useFormWizard(
+			{ ...initialBooking(), checkIn: "2026-07-01" },
+			steps,
+		);
+		const submitted: Booking[] = [];
+
+		expect(await submit((values) => void submitted.push(values))).toBe(false);
+		expect(currentStep.value?.id).toBe("payment");
+
+		form.setValue("cardNumber", "4111111111111111");
+		expect(await submit((values) => void submitted.push(values))).toBe(true);
+		expect(submitted).toHaveLength(1);
+	});
+
+	it("should persist and restore the draft from session storage", async () => {
+		const first = useFormWizard(initialBooking(), steps, { id: "booking" });
+		first.form.setValue("checkIn", "2026-07-01");
+		await first.next();
+		await nextTick();
+
+		const stored = JSON.parse(
+			sessionStorage.getItem("form-wizard:booking") ?? "null",
+		);
+		expect(stored).toMatchObject({
+			values: { checkIn: "2026-07-01" },
+			current: "guests",
+			completed: ["dates"],
+		});
+
+		let restored!: ReturnType<typeof useFormWizard<Booking>>;
+		mount({
+			setup() {
+				restored = useFormWizard(initialBooking(), steps, { id: "booking" });
+				return () => null;
+			},
+		});
+		await nextTick();
+
+		expect(restored.form.values.value.checkIn).toBe("2026-07-01");
+		expect(restored.currentStep.value?.id).toBe("guests");
+		expect(restored.isStepComplete("dates")).toBe(true);
+
+		restored.reset();
+		await nextTick();
+		expect(sessionStorage.getItem("form-wizard:booking")).toBe("null");
+	});
+
+	it("should restore the draft before mounting", async () => {
+		sessionStorage.setItem(
+			"form-wizard:booking",
+			JSON.stringify({
+				values: { checkIn: "2026-07-01" },
+				current: "guests",
+				completed: ["dates"],
+			}),
+		);
+
+		const wizard = useFormWizard(initialBooking(), steps, { id: "booking" });
+		expect(wizard.currentStep.value?.id).toBe("guests");
+		expect(wizard.form.values.value.checkIn).toBe("2026-07-01");
+
+		wizard.form.setValue("guests", 2);
+		await nextTick();
+		expect(
+			JSON.parse(sessionStorage.getItem("form-wizard:booking") ?? "null"),
+		).toMatchObject({ current: "guests", values: { guests: 2 } });
+	});
+});
@@ -0,0 +1,307 @@
+import { computed, ref, toRaw, watch } from "vue";
+import { useSessionStorageState } from "../../core/state/useSessionStorageState";
+import {
+	cloneDeep,
+	type FieldPath,
+	flattenPaths,
+	normalizePath,
+} from "./path";
+import { type FormOptions, type FormValidator, useForm } from "./useForm";
+
+export interface WizardStep<T> {
+	id: string;
+	title?: string;
+	/** Fields that must validate before leaving the step */
+	fields?: FieldPath<T>[];
+	/**
+	 * Validates this step, in the same shape as `useForm`. Any error it
+	 * returns blocks the step, whether or not the path is in `fields`.
+	 */
+	validator?: FormValidator<T>;
+	/** The step is skipped while this returns false */
+	when?: (values: T) => boolean;
+}
+
+export interface WizardStepState {
+	id: string;
+	title: string | undefined;
+	/** Position among the steps that aren't skipped, or -1 */
+	index: number;
+	isCurrent: boolean;
+	isComplete: boolean;
+	isSkipped: boolean;
+}
+
+export interface UseFormWizardOptions<T extends Record<string, any>>
+	extends FormOptions<T> {
+	/** Wizard id; the draft is stored under `form-wizard:<id>` */
+	id?: string;
+}
+
+interface WizardDraft<T> {
+	values: T;
+	current: string;
+	completed: string[];
+}
+
+const isErrorMessage = (value: unknown): value is string =>
+	typeof value === "string" && value !== "";
+
+export function useFormWizard<T extends Record<string, any>>(
+	initialValues: T,
+	steps: WizardStep<T>[],
+	options: UseFormWizardOptions<T> = {},
+) {
+	const { id, ...formOptions } = options;
+
+	const isActive = (step: WizardStep<T>, values: T) =>
+		!step.when || step.when(values);
+
+	// Shared by the checks of one validateStep, so each validator runs once
+	let batch: Map<WizardStep<T>, Promise<Record<string, string>>> | null =
+		null;
+
+	const runStepValidator = (step: WizardStep<T>, values: T) => {
+		const cached = batch?.get(step);
+		if (cached) return cached;
+
+		const result = Promise.resolve(step.validator!(values)).then((errors) =>
+			flattenPaths(errors, isErrorMessage),
+		);
+		batch?.set(step, result);
+		return result;
+	};
+
+	// Skipped steps don't contribute errors
+	const validator: FormValidator<T> = async (values) => {
+		const results = await Promise.all(
+			steps
+				.filter((step) => step.validator && isActive(step, values))
+				.map((step) => runStepValidator(step, values)),
+		);
+		return Object.assign({}, ...results);
+	};
+
+	const form = useForm(initialValues, validator, formOptions);
+
+	const activeSteps = computed(() =>
+		steps.filter((step) => isActive(step, form.values.value)),
+	);
+
+	const currentId = ref(steps[0]?.id ?? "");
+	const completed = ref<string[]>([]);
+
+	// A current step that becomes skipped falls through to the next one
+	const currentStep = computed(() => {
+		const active = activeSteps.value;
+		const position = steps.findIndex((step) => step.id === currentId.value);
+		return (
+			active.find((step) => steps.indexOf(step) >= position) ??
+			active[active.length - 1] ??
+			null
+		);
+	});
+
+	const currentIndex = computed(() =>
+		currentStep.value ? activeSteps.value.indexOf(currentStep.value) : -1,
+	);
+	const isFirst = computed(() => currentIndex.value <= 0);
+	const isLast = computed(
+		() => currentIndex.value === activeSteps.value.length - 1,
+	);
+
+	const isStepComplete = (stepId: string) => completed.value.includes(stepId);
+
+	const stepStates = computed<WizardStepState[]>(() =>
+		steps.map((step) => {
+			const index = activeSteps.value.indexOf(step);
+			return {
+				id: step.id,
+				title: step.title,
+				index,
+				isCurrent: step === currentStep.value,
+				isComplete: isStepComplete(step.id),
+				isSkipped: index === -1,
+			};
+		}),
+	);
+
+	const validateStep = async (step: WizardStep<T>) => {
+		const fields = step.fields ?? [];
+		batch = new Map();
+		let results: boolean[];
+		let stepErrors: Record<string, string>;
+		try {
+			results = await Promise.all(fields.map((field) => form.validate(field)));
+
+			// The step's validator may report paths that aren't in `fields`
+			stepErrors = step.validator
+				? await runStepValidator(step, form.values.value)
+				: {};
+		} finally {
+			batch = null;
+		}
+		Object.entries(stepErrors).forEach(([path, message]) => {
+			form.setError(path as FieldPath<T>, message);
+		});
+
+		// Show the errors of fields the user hasn't visited yet
+		const touched = form.touched.value as Record<string, boolean>;
+		const paths = fields.map((field) => normalizePath(field));
+		[...paths, ...Object.keys(stepErrors)].forEach((path) => {
+			touched[path] = true;
+		});
+		return results.every(Boolean) && Object.keys(stepErrors).length === 0;
+	};
+
+	const setComplete = (stepId: string, complete: boolean) => {
+		const others = completed.value.filter((item) => item !== stepId);
+		completed.value = complete ? [...others, stepId] : others;
+	};
+
+	/** Validates the current step and moves on if it passes */
+	const next = async () => {
+		const step = currentStep.value;
+		if (!step) return false;
+
+		const valid = await validateStep(step);
+		setComplete(step.id, valid);
+		if (!valid) return false;
+
+		const following = activeSteps.value[currentIndex.value + 1];
+		if (following) currentId.value = following.id;
+		return true;
+	};
+
+	const prev = () => {
+		const previous = activeSteps.value[currentIndex.value - 1];
+		if (previous) currentId.value = previous.id;
+	};
+
+	// Jumps back freely, and forward only past completed steps
+	const goTo = (stepId: string) => {
+		const target = activeSteps.value.findIndex((step) => step.id === stepId);
+		if (target === -1) return false;
+
+		const blocked = activeSteps.value
+			.slice(0, target)
+			.some((step) => !isStepComplete(step.id));
+		if (target > currentIndex.value && blocked) return false;
+
+		currentId.value = stepId;
+		return true;
+	};
+
+	// Session storage draft
+	const storageKey = `form-wizard:${id}`;
+	const storage = id
+		? useSessionStorageState<WizardDraft<T> | null>(storageKey, null)
+		: null;
+
+	const readDraft = (): WizardDraft<T> | null => {
+		if (typeof window === "undefined") return null;
+		try {
+			return JSON.parse(sessionStorage.getItem(storageKey) ?? "null");
+		} catch {
+			return null;
+		}
+	};
+
+	const restore = (draft: WizardDraft<T>) => {
+		form.values.value = { ...cloneDeep(initialValues), ...draft.values };
+		currentId.value = draft.current;
+		completed.value = draft.completed;
+	};
+
+	const snapshot = (): WizardDraft<T> => ({
+		values: cloneDeep(form.values.value),
+		current: currentId.value,
+		completed: [...completed.value],
+	});
+	const pristine = JSON.stringify(snapshot());
+	let saved: WizardDraft<T> | null = null;
+
+	const clearDraft = () => {
+		saved = null;
+		storage?.removeValue();
+	};
+
+	if (storage) {
+		// useSessionStorageState only reads on mount, too late for a wizard
+		// used before then, which would overwrite the draft from step one
+		const stored = readDraft();
+		if (stored) {
+			saved = stored;
+			storage.state.value = stored;
+			restore(stored);
+		}
+
+		// Restored again on mount, or changed in another tab
+		watch(storage.state, (draft) => {
+			if (!draft || toRaw(draft) === saved) return;
+			restore(draft);
+		});
+
+		watch(
+			[form.values, currentId, completed],
+			() => {
+				const draft = snapshot();
+				if (JSON.stringify(draft) === pristine) {
+					if (storage.state.value) clearDraft();
+					return;
+				}
+				saved = draft;
+				storage.state.value = draft;
+			},
+			{ deep: true },
+		);
+	}
+
+	/**
+	 * Validates every remaining step, then submits. Stops at the first
+	 * invalid step instead. The draft is cleared once `handler` succeeds.
+	 */
+	const submit = async (handler: (values: T) => Promise<void> | void) => {
+		for (const step of activeSteps.value) {
+			if (!(await validateStep(step))) {
+				setComplete(step.id, false);
+				currentId.value = step.id;
+				return false;
+			}
+			setComplete(step.id, true);
+		}
+
+		let submitted = false;
+		await form.submit(async (values) => {
+			await handler(values);
+			submitted = true;
+		});
+		if (submitted) clearDraft();
+		return submitted;
+	};
+
+	const reset = () => {
+		form.reset();
+		currentId.value = steps[0]?.id ?? "";
+		completed.value = [];
+		clearDraft();
+	};
+
+	return {
+		form,
+		steps: stepStates,
+		activeSteps,
+		currentStep,
+		currentIndex,
+		isFirst,
+		isLast,
+		isStepComplete,
+		validateStep,
+		next,
+		prev,
+		goTo,
+		submit,
+		reset,
+		clearDraft,
+	};
+}
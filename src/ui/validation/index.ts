@@ -1,3 +1,7 @@
+export * from "./messages";
+export * from "./runRules";
+export * from "./standardSchema";
+export * from "./types";
 export * from "./useFieldValidation";
 export * from "./useFormValidation";
 export * from "./useValidationRules";
@@ -0,0 +1,64 @@
+// Default messages of the built-in rules. `{name}` placeholders are filled
+// in from the rule's parameters.
+export const defaultValidationMessages = {
+	required: "This field is required",
+	email: "Invalid email address",
+	minLength: "Must be at least {min} characters",
+	maxLength: "Must be {max} characters or less",
+	sameAs: "Does not match {other}",
+	min: "Must be at least {min}",
+	max: "Must be no more than {max}",
+	between: "Must be between {min} and {max}",
+	pattern: "Invalid format",
+	url: "Must be a valid URL",
+	phone: "Must be a valid phone number",
+	creditCard: "Must be a valid card number",
+	cardExpiry: "Must be a valid expiry date",
+	cardExpired: "Card has expired",
+	iban: "Must be a valid IBAN",
+	postalCode: "Must be a valid postal code",
+	date: "Must be a valid date",
+	dateBefore: "Must be before {date}",
+	dateAfter: "Must be after {date}",
+	dateBetween: "Must be between {start} and {end}",
+	fileSize: "File must be {max} or smaller",
+	fileType: "File must be of type {types}",
+	oneOf: "Must be one of {values}",
+};
+
+export type ValidationMessageKey = keyof typeof defaultValidationMessages;
+
+export type ValidationMessageParams = Record<string, string | number>;
+
+type Translate = (key: string) => string | undefined;
+
+let translate: Translate = () => undefined;
+
+/**
+ * Routes rule messages through a translator such as `useI18n().t`. Keys
+ * are looked up under `prefix`, e.g. `validation.min`; missing keys fall
+ * back to English. Messages resolve when a rule runs, so switching the
+ * locale applies to the next validation.
+ *
+ * @example
+ * const { t } = useI18n({ locale, messages });
+ * setValidationTranslator(t);
+ */
+export function setValidationTranslator(
+	t: Translate | null,
+	prefix = "validation",
+) {
+	translate = t ? (key) => t(`${prefix}.${key}`) : () => undefined;
+}
+
+export function formatValidationMessage(
+	key: ValidationMessageKey,
+	params: ValidationMessageParams = {},
+): string {
+	const template = translate(key);
+	return (
+		typeof template === "string" ? template : defaultValidationMessages[key]
+	).replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in params ? String(params[name]) : match,
+	);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import { createValidationRunner, runRules } from "./runRules";
+import type { ValidationContext } from "./types";
+
+const createContext = (): ValidationContext => ({
+	values: {},
+	field: "name",
+	signal: new AbortController().signal,
+});
+
+describe("runRules", () => {
+	it("should return the first error synchronously", () => {
+		const later = vi.fn(() => true as const);
+		const result = runRules(
+			[{ validate: () => "First" }, { validate: later }],
+			"",
+			createContext(),
+		);
+
+		expect(result).toBe("First");
+		expect(later).not.toHaveBeenCalled();
+	});
+
+	it("should continue after an async rule passes", async () => {
+		const result = runRules(
+			[
+				{ validate: async () => true as const },
+				{ validate: () => false as unknown as string, message: "Fallback" },
+			],
+			"",
+			createContext(),
+		);
+
+		expect(result).toBeInstanceOf(Promise);
+		expect(await result).toBe("Fallback");
+	});
+});
+
+describe("createValidationRunner", () => {
+	it("should apply only the latest check", async () => {
+		const runner = createValidationRunner();
+		const apply = vi.fn((message: string | null) => message === null);
+		let resolveFirst: (message: string | null) => void = () => {};
+
+		const first = runner.run(
+			"name",
+			() =>
+				new Promise<string | null>((resolve) => {
+					resolveFirst = resolve;
+				}),
+			apply,
+		);
+		expect(runner.validating.value["name"]).toBe(true);
+
+		const second = runner.run("name", () => "Required", apply);
+		resolveFirst(null);
+
+		expect(second).toBe(false);
+		expect(await first).toBe(false);
+		expect(apply).toHaveBeenCalledTimes(1);
+		expect(runner.validating.value).toEqual({});
+	});
+
+	it("should cancel pending debounced checks", async () => {
+		vi.useFakeTimers();
+		const runner = createValidationRunner();
+		const check = vi.fn(() => null);
+
+		const result = runner.run("name", check, () => true, 100);
+		runner.cancel();
+		await vi.advanceTimersByTimeAsync(100);
+
+		expect(check).not.toHaveBeenCalled();
+		expect(await result).toBe(true);
+		vi.useRealTimers();
+	});
+});
@@ -0,0 +1,157 @@
+import { type Ref, ref } from "vue";
+import type {
+	FormValidationRule,
+	ValidationContext,
+	ValidationResult,
+} from "./types";
+
+export type RuleCheck = string | null | Promise<string | null>;
+
+export const isPromise = <T>(value: unknown): value is Promise<T> =>
+	typeof (value as Promise<T> | null)?.then === "function";
+
+const toMessage = <T, V>(
+	rule: FormValidationRule<T, V>,
+	result: ValidationResult,
+) =>
+	result === true
+		? null
+		: typeof result === "string"
+			? result
+			: rule.message || "Invalid value";
+
+/**
+ * Runs rules in order and returns the first error, or null. Stays
+ * synchronous until a rule returns a promise.
+ */
+export function runRules<T, V>(
+	rules: FormValidationRule<T, V>[],
+	value: T,
+	context: ValidationContext<V>,
+	start = 0,
+): RuleCheck {
+	for (let i = start; i < rules.length; i++) {
+		const rule = rules[i]!;
+		const result = rule.validate(value, context);
+		if (isPromise<ValidationResult>(result)) {
+			return result.then(
+				(resolved): RuleCheck =>
+					toMessage(rule, resolved) ??
+					(context.signal.aborted
+						? null
+						: runRules(rules, value, context, i + 1)),
+			);
+		}
+		const message = toMessage(rule, result);
+		if (message !== null) return message;
+	}
+	return null;
+}
+
+export interface ValidationRunner {
+	/** Keys with a debounced or async check in flight */
+	validating: Ref<Record<string, boolean>>;
+	/**
+	 * Starts a check for `key` and cancels the previous one. Only the
+	 * latest check is applied; `apply` stores its result and returns
+	 * whether it is valid. A superseded call resolves with the result of
+	 * the call that replaced it.
+	 */
+	run: <R>(
+		key: string,
+		check: (signal: AbortSignal) => R | Promise<R>,
+		apply: (result: R) => boolean,
+		delay?: number,
+	) => boolean | Promise<boolean>;
+	cancel: (key?: string) => void;
+}
+
+export function createValidationRunner(): ValidationRunner {
+	const validating = ref<Record<string, boolean>>({});
+	const active = new Map<
+		string,
+		{ controller: AbortController; timer?: ReturnType<typeof setTimeout> }
+	>();
+	const results = new Map<string, boolean | Promise<boolean>>();
+
+	const latest = (key: string) => results.get(key) ?? true;
+
+	const finish = (key: string) => {
+		active.delete(key);
+		delete validating.value[key];
+	};
+
+	const cancel = (key?: string) => {
+		const keys = key === undefined ? [...active.keys()] : [key];
+		keys.forEach((item) => {
+			results.delete(item);
+			const entry = active.get(item);
+			if (!entry) return;
+			finish(item);
+			clearTimeout(entry.timer);
+			entry.controller.abort();
+		});
+	};
+
+	const run = <R>(
+		key: string,
+		check: (signal: AbortSignal) => R | Promise<R>,
+		apply: (result: R) => boolean,
+		delay = 0,
+	) => {
+		cancel(key);
+		const controller = new AbortController();
+		const { signal } = controller;
+		const entry: {
+			controller: AbortController;
+			timer?: ReturnType<typeof setTimeout>;
+		} = { controller };
+		active.set(key, entry);
+
+		const settle = (value: R) => {
+			if (signal.aborted) return latest(key);
+			finish(key);
+			return apply(value);
+		};
+
+		const fail = (error: unknown) => {
+			if (signal.aborted) return latest(key);
+			finish(key);
+			console.error("Validation error:", error);
+			return false;
+		};
+
+		const start = (): boolean | Promise<boolean> => {
+			let result: R | Promise<R>;
+			try {
+				result = check(signal);
+			} catch (error) {
+				return fail(error);
+			}
+			if (!isPromise<R>(result)) return settle(result);
+			validating.value[key] = true;
+			return result.then(settle, fail);
+		};
+
+		let result: boolean | Promise<boolean>;
+		if (delay > 0) {
+			validating.value[key] = true;
+			result = new Promise<boolean>((resolve) => {
+				entry.timer = setTimeout(() => resolve(start()), delay);
+				// Wait a tick so the replacing check is registered first
+				signal.addEventListener(
+					"abort",
+					() => resolve(Promise.resolve().then(() => latest(key))),
+					{ once: true },
+				);
+			});
+		} else {
+			result = start();
+		}
+
+		results.set(key, result);
+		return result;
+	};
+
+	return { validating, run, cancel };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { useForm } from "../form/useForm";
+import {
+	issuesToErrors,
+	type StandardSchemaV1,
+	schemaRules,
+	schemaValidator,
+} from "./standardSchema";
+import { useFormValidation } from "./useFormValidation";
+
+interface Booking {
+	name: string;
+	guests: { email: string }[];
+}
+
+// A minimal schema in the shape Zod or Valibot would produce
+const createSchema = (async = false): StandardSchemaV1<Booking> => ({
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value) => {
+			const booking = value as Booking;
+			const issues: StandardSchemaV1.Issue[] = [];
+			if (!booking.name) {
+				issues.push({ message: "Name is required", path: ["name"] });
+			}
+			booking.guests?.forEach((guest, i) => {
+				if (!guest.email.includes("@")) {
+					issues.push({
+						message: "Invalid email",
+						path: [{ key: "guests" }, { key: i }, "email"],
+					});
+				}
+			});
+			const result = issues.length ? { issues } : { value: booking };
+			return async ? Promise.resolve(result) : result;
+		},
+	},
+});
+
+describe("standardSchema", () => {
+	it("should map issue paths to normalized keys", () => {
+		expect(
+			issuesToErrors([
+				{ message: "Invalid email", path: ["guests", 1, "email"] },
+				{ message: "Second issue", path: ["guests", 1, "email"] },
+				{ message: "Dates overlap" },
+			]),
+		).toEqual({ "guests[1].email": "Invalid email", "": "Dates overlap" });
+	});
+
+	it("should validate useForm values with nested errors", async () => {
+		const { validate, getError } = useForm<Booking>(
+			{ name: "", guests: [{ email: "ada@example.com" }, { email: "bob" }] },
+			schemaValidator(createSchema(true)),
+		);
+
+		expect(await validate()).toBe(false);
+		expect(getError("name")).toBe("Name is required");
+		expect(getError("guests.1.email")).toBe("Invalid email");
+		expect(getError("guests[0].email")).toBeUndefined();
+	});
+
+	it("should create per-field rules for useFormValidation", () => {
+		const { setFieldValue, errors } = useFormValidation<Booking>(
+			{ name: "", guests: [{ email: "bob" }] },
+			schemaRules(createSchema(), ["name", "guests"]),
+		);
+
+		setFieldValue("name", "");
+		expect(errors.value.name).toBe("Name is required");
+
+		setFieldValue("name", "Ada");
+		expect(errors.value.name).toBeUndefined();
+
+		setFieldValue("guests", [{ email: "ada@example.com" }]);
+		expect(errors.value.guests).toBeUndefined();
+	});
+});
@@ -0,0 +1,132 @@
+import { cloneDeep, isPathWithin, normalizePath, setIn } from "../form/path";
+import type { FormValidator } from "../form/useForm";
+import { isPromise } from "./runRules";
+import type { FormValidationRule, ValidationResult } from "./types";
+
+// The Standard Schema v1 interface, copied as the spec recommends so no
+// schema library is needed. Zod, Valibot, ArkType and others implement it.
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) =>
+			| StandardSchemaV1.Result<Output>
+			| Promise<StandardSchemaV1.Result<Output>>;
+		readonly types?:
+			| { readonly input: Input; readonly output: Output }
+			| undefined;
+	};
+}
+
+export declare namespace StandardSchemaV1 {
+	type Result<Output> = SuccessResult<Output> | FailureResult;
+
+	interface SuccessResult<Output> {
+		readonly value: Output;
+		readonly issues?: undefined;
+	}
+
+	interface FailureResult {
+		readonly issues: ReadonlyArray<Issue>;
+	}
+
+	interface Issue {
+		readonly message: string;
+		readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+	}
+
+	interface PathSegment {
+		readonly key: PropertyKey;
+	}
+}
+
+const toPath = (issue: StandardSchemaV1.Issue) =>
+	normalizePath(
+		(issue.path ?? [])
+			.map((segment) =>
+				String(typeof segment === "object" ? segment.key : segment),
+			)
+			.join("."),
+	);
+
+/**
+ * Maps issues to errors keyed by normalized path, keeping the first issue
+ * per path. Issues about the value as a whole are keyed by "".
+ */
+export function issuesToErrors(
+	issues: ReadonlyArray<StandardSchemaV1.Issue>,
+): Record<string, string> {
+	const errors: Record<string, string> = {};
+	issues.forEach((issue) => {
+		const path = toPath(issue);
+		if (!(path in errors)) errors[path] = issue.message;
+	});
+	return errors;
+}
+
+const validateSchema = <R>(
+	schema: StandardSchemaV1,
+	value: unknown,
+	map: (issues: ReadonlyArray<StandardSchemaV1.Issue>) => R,
+): R | Promise<R> => {
+	const result = schema["~standard"].validate(value);
+	return isPromise<StandardSchemaV1.Result<unknown>>(result)
+		? result.then((resolved) => map(resolved.issues ?? []))
+		: map(result.issues ?? []);
+};
+
+/**
+ * Turns a schema into the `validator` of `useForm`.
+ *
+ * @example
+ * const form = useForm(initialBooking, schemaValidator(bookingSchema));
+ */
+export function schemaValidator<T extends Record<string, any>>(
+	schema: StandardSchemaV1,
+): FormValidator<T> {
+	return async (values) => validateSchema(schema, values, issuesToErrors);
+}
+
+/**
+ * A rule that validates the whole form with the schema and reports the
+ * first issue at or below `field`.
+ */
+export function schemaRule<T = any>(
+	schema: StandardSchemaV1,
+	field: string,
+): FormValidationRule<T> {
+	const path = normalizePath(field);
+
+	return {
+		validate: (value, context) => {
+			const values = cloneDeep({ ...context?.values });
+			setIn(values, path, value);
+
+			return validateSchema(
+				schema,
+				values,
+				(issues): ValidationResult =>
+					issues.find((issue) => isPathWithin(toPath(issue), path))
+						?.message ?? true,
+			);
+		},
+	};
+}
+
+/**
+ * Per-field rules for `useFormValidation`. Schemas can't be inspected in
+ * a library-neutral way, so the fields are listed explicitly.
+ *
+ * @example
+ * useFormValidation(initial, schemaRules(bookingSchema, ["name", "email"]));
+ */
+export function schemaRules<T extends Record<string, any>>(
+	schema: StandardSchemaV1,
+	fields: (keyof T & string)[],
+): Partial<Record<keyof T, FormValidationRule[]>> {
+	return Object.fromEntries(
+		fields.map((field) => [field, [schemaRule(schema, field)]]),
+	) as Partial<Record<keyof T, FormValidationRule[]>>;
+}
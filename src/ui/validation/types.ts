@@ -1,4 +1,19 @@
-export interface FormValidationRule<T = any> {
-	validate: (value: T) => string | true;
+export interface ValidationContext<V = Record<string, any>> {
+	/** All form values, for rules that compare fields */
+	values: V;
+	/** Path of the field being validated */
+	field: string;
+	/** Aborted when a newer check of the same field starts */
+	signal: AbortSignal;
+}
+
+export type ValidationResult = string | true;
+
+export interface FormValidationRule<T = any, V = Record<string, any>> {
+	/** The validation composables always pass a context */
+	validate: (
+		value: T,
+		context?: ValidationContext<V>,
+	) => ValidationResult | Promise<ValidationResult>;
 	message?: string;
 }
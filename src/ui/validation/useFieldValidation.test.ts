@@ -131,4 +131,33 @@ describe("useFieldValidation", () => {
 		expect(result).toBe(true);
 		expect(isValid.value).toBe(true);
 	});
+
+	it("should debounce async rules and cancel stale checks", async () => {
+		const signals: AbortSignal[] = [];
+		const { setValue, error, validating } = useFieldValidation<string>(
+			"",
+			[
+				{
+					validate: (value, context) => {
+						signals.push(context!.signal);
+						return new Promise((resolve) => {
+							setTimeout(() => resolve(value.length > 3 || "Too short"), 50);
+						});
+					},
+				},
+			],
+			{ debounce: 200 },
+		);
+
+		setValue("ab");
+		await vi.advanceTimersByTimeAsync(200);
+		setValue("abc");
+		expect(signals[0]?.aborted).toBe(true);
+		expect(validating.value).toBe(true);
+
+		await vi.advanceTimersByTimeAsync(250);
+		expect(signals).toHaveLength(2);
+		expect(error.value).toBe("Too short");
+		expect(validating.value).toBe(false);
+	});
 });
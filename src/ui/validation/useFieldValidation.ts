@@ -1,9 +1,8 @@
 import { computed, type Ref, ref, watch } from "vue";
+import { createValidationRunner, runRules } from "./runRules";
+import type { FormValidationRule } from "./types";
 
-export interface ValidationRule<T = any> {
-	validate: (value: T) => string | true;
-	message?: string;
-}
+export type ValidationRule<T = any> = FormValidationRule<T>;
 
 export function useFieldValidation<T>(
 	initialValue: T,
@@ -11,6 +10,10 @@ export function useFieldValidation<T>(
 	options: {
 		validateOnBlur?: boolean;
 		validateOnChange?: boolean;
+		/** Delay in ms before a changed value is validated */
+		debounce?: number;
+		/** Other values passed to rules, e.g. a password to confirm */
+		values?: () => Record<string, any>;
 	} = {},
 ): {
 	value: Ref<T>;
@@ -19,6 +22,7 @@ export function useFieldValidation<T>(
 	isDirty: Ref<boolean>;
 	isValid: Ref<boolean>;
 	hasError: Ref<boolean>;
+	validating: Ref<boolean>;
 	validate: () => boolean;
 	validateAsync: () => Promise<boolean>;
 	reset: (newValue?: T) => void;
@@ -26,38 +30,49 @@ export function useFieldValidation<T>(
 	setTouched: (isTouched?: boolean) => void;
 	setError: (errorMessage: string | null) => void;
 } {
-	const { validateOnBlur = false, validateOnChange = true } = options;
+	const {
+		validateOnBlur = false,
+		validateOnChange = true,
+		debounce = 0,
+		values = () => ({}),
+	} = options;
 
 	const value = ref<T>(initialValue);
 	const error = ref<string | null>(null);
 	const touched = ref(false);
 	const isDirty = ref(false);
 
-	const validate = (): boolean => {
-		if (!rules.length) {
-			error.value = null;
-			return true;
-		}
-
-		for (const rule of rules) {
-			const result = rule.validate(value.value);
-			if (result !== true) {
-				error.value =
-					typeof result === "string" ? result : rule.message || "Invalid value";
-				return false;
-			}
-		}
-
-		error.value = null;
-		return true;
-	};
-
-	const validateAsync = async (): Promise<boolean> => {
-		return validate();
-	};
+	const runner = createValidationRunner();
+	const validating = computed(() => !!runner.validating.value["value"]);
+
+	const check = (delay = 0) =>
+		runner.run(
+			"value",
+			(signal) =>
+				runRules(rules, value.value, {
+					values: values(),
+					field: "value",
+					signal,
+				}),
+			(message) => {
+				error.value = message;
+				return message === null;
+			},
+			delay,
+		);
+
+	// A pending async rule counts as valid; use validateAsync to wait for it
+	const validate = (): boolean => check() !== false;
+
+	const validateAsync = async (): Promise<boolean> => check();
+
+	// setValue and reset deal with their own change, so the watcher skips it
+	let handled: { value: T } | null = null;
 
 	const reset = (newValue?: T) => {
+		runner.cancel();
 		value.value = newValue !== undefined ? newValue : initialValue;
+		handled = { value: value.value };
 		error.value = null;
 		touched.value = false;
 		isDirty.value = false;
@@ -66,10 +81,11 @@ export function useFieldValidation<T>(
 	const setValue = (newValue: T) => {
 		isDirty.value = true;
 		value.value = newValue;
+		handled = { value: value.value };
 		touched.value = true;
 
 		if (validateOnChange) {
-			validate();
+			check(debounce);
 		}
 	};
 
@@ -89,21 +105,24 @@ export function useFieldValidation<T>(
 
 	// Watch for value changes
 	watch(value, (newValue, oldValue) => {
-		if (newValue !== oldValue) {
+		const skip = handled !== null && Object.is(handled.value, newValue);
+		handled = null;
+		if (!skip && newValue !== oldValue) {
 			isDirty.value = true;
 			if (validateOnChange) {
-				validate();
+				check(debounce);
 			}
 		}
 	});
 
 	return {
-		value: ref(value.value) as Ref<T>,
-		error: ref(error.value) as Ref<string | null>,
-		touched: ref(touched.value) as Ref<boolean>,
-		isDirty: ref(isDirty.value) as Ref<boolean>,
+		value: value as Ref<T>,
+		error,
+		touched,
+		isDirty,
 		isValid,
 		hasError,
+		validating,
 		validate,
 		validateAsync,
 		reset,
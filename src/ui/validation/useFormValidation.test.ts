@@ -123,4 +123,50 @@ describe("useFormValidation", () => {
 		expect(result).toBe(false);
 		expect(isValid.value).toBe(false);
 	});
+
+	it("should validate async rules and track validating fields", async () => {
+		const { setFieldValue, validating, isValidating, validateAsync, errors } =
+			useFormValidation(
+				{ username: "" },
+				{
+					username: [
+						required(),
+						{
+							validate: async (value: string) =>
+								value !== "admin" || "Username is taken",
+						},
+					],
+				},
+			);
+
+		setFieldValue("username", "admin");
+		expect(validating.value.username).toBe(true);
+		expect(isValidating.value).toBe(true);
+
+		expect(await validateAsync()).toBe(false);
+		expect(errors.value.username).toBe("Username is taken");
+		expect(isValidating.value).toBe(false);
+	});
+
+	it("should compare fields through the rule context", () => {
+		const { setFieldValue, errors } = useFormValidation(
+			{ password: "", confirm: "" },
+			{
+				confirm: [
+					{
+						validate: (value, context) =>
+							value === context?.values.password ||
+							"Passwords do not match",
+					},
+				],
+			},
+		);
+
+		setFieldValue("password", "secret");
+		setFieldValue("confirm", "other");
+		expect(errors.value.confirm).toBe("Passwords do not match");
+
+		setFieldValue("confirm", "secret");
+		expect(errors.value.confirm).toBeUndefined();
+	});
 });
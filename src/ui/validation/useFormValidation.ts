@@ -1,4 +1,5 @@
 import { computed, type Ref, ref, watch } from "vue";
+import { createValidationRunner, type RuleCheck, runRules } from "./runRules";
 import type { FormValidationRule } from "./types";
 
 export interface ValidationState<T> {
@@ -8,19 +9,32 @@ export interface ValidationState<T> {
 	isDirty: boolean;
 }
 
+export interface UseFormValidationOptions<T> {
+	/** Delay in ms before a changed field is validated, for all or per field */
+	debounce?: number | Partial<Record<keyof T, number>>;
+}
+
 export function useFormValidation<T extends Record<string, any>>(
 	initialValues: T,
-	rules: Partial<Record<keyof T, FormValidationRule[]>>,
+	rules: Partial<Record<keyof T, FormValidationRule<any, T>[]>>,
+	options: UseFormValidationOptions<T> = {},
 ): {
 	values: Ref<T>;
 	errors: Ref<Partial<Record<keyof T, string>>>;
 	isDirty: Ref<Partial<Record<keyof T, boolean>>>;
 	touched: Ref<Partial<Record<keyof T, boolean>>>;
+	validating: Ref<Partial<Record<keyof T, boolean>>>;
 	isValid: Ref<boolean>;
 	isDirtyAny: Ref<boolean>;
 	touchedAny: Ref<boolean>;
+	isValidating: Ref<boolean>;
 	validate: () => boolean;
-	validateField: (field: keyof T, value: T[keyof T]) => string | null;
+	validateAsync: () => Promise<boolean>;
+	validateField: (
+		field: keyof T,
+		value: T[keyof T],
+		signal?: AbortSignal,
+	) => RuleCheck;
 	setFieldValue: (field: keyof T, value: T[keyof T]) => void;
 	setFieldError: (field: keyof T, error: string | null) => void;
 	reset: () => void;
@@ -38,52 +52,67 @@ export function useFormValidation<T extends Record<string, any>>(
 		{} as Partial<Record<keyof T, boolean>>,
 	);
 
-	const validateField = (field: keyof T, value: T[keyof T]): string | null => {
+	const { debounce = 0 } = options;
+	const runner = createValidationRunner();
+
+	const getDelay = (field: keyof T) =>
+		typeof debounce === "number" ? debounce : (debounce[field] ?? 0);
+
+	const validateField = (
+		field: keyof T,
+		value: T[keyof T],
+		signal = new AbortController().signal,
+	): RuleCheck => {
 		const fieldRules = rules[field];
 		if (!fieldRules || fieldRules.length === 0) return null;
 
-		for (const rule of fieldRules) {
-			const result = rule.validate(value);
-			if (result !== true) {
-				return typeof result === "string"
-					? result
-					: rule.message || "Invalid value";
-			}
-		}
-
-		return null;
+		return runRules(fieldRules, value, {
+			values: values.value,
+			field: String(field),
+			signal,
+		});
 	};
 
+	// Async checks of a field are debounced and replace any pending check
+	const checkField = (field: keyof T, delay = 0) =>
+		runner.run(
+			String(field),
+			(signal) => validateField(field, values.value[field], signal),
+			(error) => {
+				setFieldError(field, error);
+				return error === null;
+			},
+			delay,
+		);
+
+	// Fields with pending async rules count as valid; use validateAsync
 	const validate = (): boolean => {
 		let isValid = true;
 
 		for (const field in rules) {
-			const error = validateField(
-				field as keyof T,
-				values.value[field as keyof T],
-			);
-			if (error) {
-				errors.value[field as keyof T] = error;
-				isValid = false;
-			} else {
-				delete errors.value[field as keyof T];
-			}
+			if (checkField(field) === false) isValid = false;
 		}
 
 		return isValid;
 	};
 
+	const validateAsync = async (): Promise<boolean> => {
+		const results = await Promise.all(
+			Object.keys(rules).map((field) => checkField(field)),
+		);
+		return results.every(Boolean);
+	};
+
+	// Fields already validated by setFieldValue, skipped by the watcher
+	const validated = new Set<keyof T>();
+
 	const setFieldValue = (field: keyof T, value: T[keyof T]) => {
 		values.value[field] = value;
 		isDirty.value[field] = true;
 		touched.value[field] = true;
 
-		const error = validateField(field, value);
-		if (error) {
-			errors.value[field] = error;
-		} else {
-			delete errors.value[field];
-		}
+		validated.add(field);
+		checkField(field, getDelay(field));
 	};
 
 	const setFieldError = (field: keyof T, error: string | null) => {
@@ -95,6 +124,8 @@ export function useFormValidation<T extends Record<string, any>>(
 	};
 
 	const reset = () => {
+		runner.cancel();
+		validated.clear();
 		values.value = { ...initialValues };
 		errors.value = {} as Partial<Record<keyof T, string>>;
 		isDirty.value = {} as Partial<Record<keyof T, boolean>>;
@@ -102,6 +133,7 @@ export function useFormValidation<T extends Record<string, any>>(
 	};
 
 	const resetField = (field: keyof T) => {
+		runner.cancel(String(field));
 		values.value[field] = initialValues[field];
 		delete errors.value[field];
 		delete isDirty.value[field];
@@ -118,37 +150,38 @@ export function useFormValidation<T extends Record<string, any>>(
 	const isValid = computed(() => Object.keys(errors.value).length === 0);
 	const isDirtyAny = computed(() => Object.values(isDirty.value).some(Boolean));
 	const touchedAny = computed(() => Object.values(touched.value).some(Boolean));
+	const isValidating = computed(() =>
+		Object.values(runner.validating.value).some(Boolean),
+	);
 
-	// Watch for value changes and validate
+	// Revalidates dirty fields on any change, so rules that compare
+	// fields stay current
 	watch(
 		values,
 		(newValues) => {
 			for (const field in newValues) {
+				if (validated.has(field)) continue;
 				if (isDirty.value[field as keyof T]) {
-					const error = validateField(
-						field as keyof T,
-						newValues[field as keyof T],
-					);
-					if (error) {
-						errors.value[field as keyof T] = error;
-					} else {
-						delete errors.value[field as keyof T];
-					}
+					checkField(field, getDelay(field));
 				}
 			}
+			validated.clear();
 		},
 		{ deep: true },
 	);
 
 	return {
-		values: ref(values.value) as Ref<T>,
-		errors: ref(errors.value) as Ref<Partial<Record<keyof T, string>>>,
-		isDirty: ref(isDirty.value) as Ref<Partial<Record<keyof T, boolean>>>,
-		touched: ref(touched.value) as Ref<Partial<Record<keyof T, boolean>>>,
+		values: values as Ref<T>,
+		errors: errors as Ref<Partial<Record<keyof T, string>>>,
+		isDirty: isDirty as Ref<Partial<Record<keyof T, boolean>>>,
+		touched: touched as Ref<Partial<Record<keyof T, boolean>>>,
+		validating: runner.validating as Ref<Partial<Record<keyof T, boolean>>>,
 		isValid,
 		isDirtyAny,
 		touchedAny,
+		isValidating,
 		validate,
+		validateAsync,
 		validateField,
 		setFieldValue,
 		setFieldError,
@@ -1,10 +1,29 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { useI18n } from "../../core/i18n/useI18n";
+import { setValidationTranslator } from "./messages";
 import {
+	between,
+	cardExpiry,
+	creditCard,
+	dateAfter,
+	dateBefore,
+	dateBetween,
 	email,
+	fileSize,
+	fileType,
+	iban,
+	max,
 	maxLength,
+	min,
 	minLength,
+	oneOf,
+	pattern,
+	phone,
+	postalCode,
 	required,
 	sameAs,
+	url,
 } from "./useValidationRules";
 
 describe("useValidationRules", () => {
@@ -33,6 +52,8 @@ describe("useValidationRules", () => {
 		it("should return true for valid email addresses", () => {
 			expect(rule.validate("test@example.com")).toBe(true);
 			expect(rule.validate("user.name+tag@domain.co.uk")).toBe(true);
+			expect(rule.validate("team@company.travel")).toBe(true);
+			expect(rule.validate("hello@studio.photography")).toBe(true);
 		});
 
 		it("should return the message for invalid email addresses", () => {
@@ -90,4 +111,146 @@ describe("useValidationRules", () => {
 			expect(rule.validate("different")).toBe("Does not match Password");
 		});
 	});
+
+	describe("numbers", () => {
+		it("should check min, max and between", () => {
+			expect(min(5).validate(5)).toBe(true);
+			expect(min(5).validate("4")).toBe("Must be at least 5");
+			expect(max(10).validate(11)).toBe("Must be no more than 10");
+			expect(between(1, 3).validate(2)).toBe(true);
+			expect(between(1, 3).validate(4)).toBe("Must be between 1 and 3");
+		});
+
+		it("should leave empty values to required", () => {
+			expect(min(5).validate("")).toBe(true);
+			expect(oneOf(["a", "b"]).validate(null as unknown as string)).toBe(
+				true,
+			);
+		});
+	});
+
+	describe("formats", () => {
+		it("should check patterns, URLs and phone numbers", () => {
+			expect(pattern(/^[A-Z]{3}$/).validate("ABC")).toBe(true);
+			expect(pattern(/^[A-Z]{3}$/).validate("AB")).toBe("Invalid format");
+			expect(url().validate("https://example.com/path")).toBe(true);
+			expect(url().validate("ftp://example.com")).toBe("Must be a valid URL");
+			expect(url().validate("not a url")).toBe("Must be a valid URL");
+			expect(phone().validate("+31 6 1234 5678")).toBe(true);
+			expect(phone().validate("0612345678")).toBe(
+				"Must be a valid phone number",
+			);
+		});
+
+		it("should check card numbers, expiry dates and IBANs", () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date(2026, 5, 15));
+
+			expect(creditCard().validate("4111 1111 1111 1111")).toBe(true);
+			expect(creditCard().validate("4111 1111 1111 1112")).toBe(
+				"Must be a valid card number",
+			);
+			expect(cardExpiry().validate("06/26")).toBe(true);
+			expect(cardExpiry().validate("05/2026")).toBe("Card has expired");
+			expect(cardExpiry().validate("13/30")).toBe(
+				"Must be a valid expiry date",
+			);
+			expect(iban().validate("GB82 WEST 1234 5698 7654 32")).toBe(true);
+			expect(iban().validate("GB82 WEST 1234 5698 7654 33")).toBe(
+				"Must be a valid IBAN",
+			);
+
+			vi.useRealTimers();
+		});
+
+		it("should check postal codes per country", () => {
+			expect(postalCode("NL").validate("1012 AB")).toBe(true);
+			expect(postalCode("us").validate("94105-1234")).toBe(true);
+			expect(postalCode("GB").validate("SW1A 1AA")).toBe(true);
+			expect(postalCode("DE").validate("1234")).toBe(
+				"Must be a valid postal code",
+			);
+			expect(() => postalCode("XX")).toThrow("No postal code format");
+		});
+	});
+
+	describe("dates", () => {
+		it("should compare dates with fixed and moving limits", () => {
+			const today = () => new Date(2026, 0, 10);
+
+			expect(dateBefore(today).validate("2026-01-09")).toBe(true);
+			expect(dateAfter("2026-01-01").validate("2025-12-31")).toMatch(
+				/^Must be after /,
+			);
+			expect(
+				dateBetween("2026-01-01", "2026-01-31").validate("2026-01-31"),
+			).toBe(true);
+			expect(dateBefore(today).validate("someday")).toBe(
+				"Must be a valid date",
+			);
+		});
+	});
+
+	describe("files", () => {
+		const createFile = (name: string, type: string, size: number) =>
+			new File(["x".repeat(size)], name, { type });
+
+		it("should check file size and type", () => {
+			const image = createFile("photo.png", "image/png", 2048);
+			const csv = createFile("data.csv", "text/csv", 10);
+
+			expect(fileSize(4096).validate(image)).toBe(true);
+			expect(fileSize(1024).validate([csv, image])).toBe(
+				"File must be 1 KB or smaller",
+			);
+			expect(fileType(["image/*", ".csv"]).validate([image, csv])).toBe(true);
+			expect(fileType(["application/pdf"]).validate(image)).toBe(
+				"File must be of type application/pdf",
+			);
+		});
+	});
+
+	describe("oneOf", () => {
+		it("should accept listed values only", () => {
+			expect(oneOf(["red", "green"]).validate("red")).toBe(true);
+			expect(oneOf(["red", "green"]).validate("blue")).toBe(
+				"Must be one of red, green",
+			);
+		});
+	});
+
+	describe("messages", () => {
+		afterEach(() => {
+			setValidationTranslator(null);
+		});
+
+		it("should expose the default message on each rule", () => {
+			expect(required().message).toBe("This field is required");
+			expect(email().message).toBe("Invalid email address");
+			expect(email("Custom").message).toBe("Custom");
+		});
+
+		it("should translate messages through useI18n", () => {
+			const locale = ref("nl");
+			const { t } = useI18n({
+				locale,
+				messages: ref({
+					nl: {
+						validation: {
+							required: "Dit veld is verplicht",
+							min: "Minimaal {min}",
+						},
+					},
+				}),
+			});
+			setValidationTranslator(t);
+
+			expect(required().validate("")).toBe("Dit veld is verplicht");
+			expect(min(3).validate(1)).toBe("Minimaal 3");
+			expect(required("Custom").validate("")).toBe("Custom");
+
+			locale.value = "en";
+			expect(min(3).validate(1)).toBe("Must be at least 3");
+		});
+	});
 });
@@ -1,51 +1,425 @@
+import {
+	formatValidationMessage,
+	type ValidationMessageKey,
+	type ValidationMessageParams,
+} from "./messages";
 import type { FormValidationRule } from "./types";
 
-export const required = (
-	message = "This field is required",
-): FormValidationRule => ({
-	validate: (value: any) => {
-		if (Array.isArray(value)) return value.length > 0 || message;
-		if (typeof value === "string") return value.trim().length > 0 || message;
-		return (value !== null && value !== undefined && value !== "") || message;
+/**
+ * Builds a rule whose default message is looked up when it fails, so it
+ * follows the current translator. A custom `message` wins.
+ */
+const createRule = <T>(
+	test: (value: T) => boolean,
+	key: ValidationMessageKey,
+	message?: string,
+	params?: ValidationMessageParams,
+): FormValidationRule<T> => ({
+	validate: (value: T) =>
+		test(value) || (message ?? formatValidationMessage(key, params)),
+	// Resolved on read, so a translator set later still applies
+	get message() {
+		return message ?? formatValidationMessage(key, params);
 	},
-	message,
 });
 
-export const email = (
-	message = "Invalid email address",
-): FormValidationRule<string> => ({
-	validate: (value: string) => {
-		const regex = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,4}$/i;
-		return regex.test(value) || message;
-	},
-	message,
-});
+const isEmpty = (value: unknown) =>
+	value === null || value === undefined || value === "";
+
+// Format rules pass empty values; pair them with `required` when needed
+const optional =
+	<T>(test: (value: T) => boolean) =>
+	(value: T) =>
+		isEmpty(value) || test(value);
+
+export const required = (message?: string): FormValidationRule =>
+	createRule(
+		(value: any) => {
+			if (Array.isArray(value)) return value.length > 0;
+			if (typeof value === "string") return value.trim().length > 0;
+			return !isEmpty(value);
+		},
+		"required",
+		message,
+	);
+
+export const email = (message?: string): FormValidationRule<string> =>
+	createRule(
+		(value) => /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,63}$/i.test(value),
+		"email",
+		message,
+	);
 
 export const minLength = (
 	min: number,
 	message?: string,
-): FormValidationRule<string> => ({
-	validate: (value: string) =>
-		(value && value.length >= min) ||
-		(message ?? `Must be at least ${min} characters`),
-	message: message ?? `Must be at least ${min} characters`,
-});
+): FormValidationRule<string> =>
+	createRule((value) => !!value && value.length >= min, "minLength", message, {
+		min,
+	});
 
 export const maxLength = (
 	max: number,
 	message?: string,
-): FormValidationRule<string> => ({
-	validate: (value: string) =>
-		(value && value.length <= max) ||
-		(message ?? `Must be ${max} characters or less`),
-	message: message ?? `Must be ${max} characters or less`,
-});
+): FormValidationRule<string> =>
+	createRule((value) => !!value && value.length <= max, "maxLength", message, {
+		max,
+	});
 
 export const sameAs = (
 	otherValue: any,
 	otherName: string,
-): FormValidationRule => ({
-	validate: (value: any) =>
-		value === otherValue || `Does not match ${otherName}`,
-	message: `Does not match ${otherName}`,
+): FormValidationRule =>
+	createRule((value) => value === otherValue, "sameAs", undefined, {
+		other: otherName,
+	});
+
+// Numbers
+
+const toNumber = (value: number | string) =>
+	typeof value === "number" ? value : Number(value);
+
+export const min = (
+	limit: number,
+	message?: string,
+): FormValidationRule<number | string> =>
+	createRule(
+		optional((value) => toNumber(value) >= limit),
+		"min",
+		message,
+		{ min: limit },
+	);
+
+export const max = (
+	limit: number,
+	message?: string,
+): FormValidationRule<number | string> =>
+	createRule(
+		optional((value) => toNumber(value) <= limit),
+		"max",
+		message,
+		{ max: limit },
+	);
+
+export const between = (
+	lower: number,
+	upper: number,
+	message?: string,
+): FormValidationRule<number | string> =>
+	createRule(
+		optional((value) => {
+			const number = toNumber(value);
+			return number >= lower && number <= upper;
+		}),
+		"between",
+		message,
+		{ min: lower, max: upper },
+	);
+
+// Text formats
+
+export const pattern = (
+	regex: RegExp,
+	message?: string,
+): FormValidationRule<string> =>
+	createRule(
+		optional((value) => {
+			regex.lastIndex = 0;
+			return regex.test(value);
+		}),
+		"pattern",
+		message,
+	);
+
+export const url = (
+	message?: string,
+	protocols: string[] = ["http", "https"],
+): FormValidationRule<string> =>
+	createRule(
+		optional((value) => {
+			try {
+				const { protocol } = new URL(value);
+				return protocols.includes(protocol.slice(0, -1));
+			} catch {
+				return false;
+			}
+		}),
+		"url",
+		message,
+	);
+
+/**
+ * International numbers in E.164 form, e.g. `+31612345678`. Spaces,
+ * dashes, dots and parentheses are ignored.
+ */
+export const phone = (message?: string): FormValidationRule<string> =>
+	createRule(
+		optional((value) =>
+			/^\+[1-9]\d{1,14}$/.test(value.replace(/[\s().-]/g, "")),
+		),
+		"phone",
+		message,
+	);
+
+// Payments
+
+const luhn = (digits: string) => {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+};
+
+export const creditCard = (message?: string): FormValidationRule<string> =>
+	createRule(
+		optional((value) => {
+			const digits = value.replace(/[\s-]/g, "");
+			return /^\d{12,19}$/.test(digits) && luhn(digits);
+		}),
+		"creditCard",
+		message,
+	);
+
+/**
+ * Expiry dates as `MM/YY` or `MM/YYYY`. A card is valid through the last
+ * day of its expiry month.
+ */
+export const cardExpiry = (
+	message?: string,
+	expiredMessage?: string,
+): FormValidationRule<string> => ({
+	validate: (value) => {
+		if (isEmpty(value)) return true;
+
+		const match = /^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/.exec(value.trim());
+		const month = Number(match?.[1]);
+		if (!match || month < 1 || month > 12) {
+			return message ?? formatValidationMessage("cardExpiry");
+		}
+
+		const year = Number(match[2]!.length === 2 ? `20${match[2]}` : match[2]);
+		return (
+			new Date() < new Date(year, month, 1) ||
+			(expiredMessage ?? formatValidationMessage("cardExpired"))
+		);
+	},
+	...(message && { message }),
 });
+
+const ibanRemainder = (iban: string) => {
+	const rearranged = iban.slice(4) + iban.slice(0, 4);
+	let remainder = 0;
+	for (const char of rearranged) {
+		const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+		for (const digit of digits) {
+			remainder = (remainder * 10 + Number(digit)) % 97;
+		}
+	}
+	return remainder;
+};
+
+export const iban = (message?: string): FormValidationRule<string> =>
+	createRule(
+		optional((value) => {
+			const normalized = value.replace(/\s/g, "").toUpperCase();
+			return (
+				/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized) &&
+				ibanRemainder(normalized) === 1
+			);
+		}),
+		"iban",
+		message,
+	);
+
+// Postal codes
+
+/** Postal code formats by ISO 3166-1 alpha-2 code; add to it as needed */
+export const postalCodePatterns: Record<string, RegExp> = {
+	AT: /^\d{4}$/,
+	AU: /^\d{4}$/,
+	BE: /^\d{4}$/,
+	BR: /^\d{5}-?\d{3}$/,
+	CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+	CH: /^\d{4}$/,
+	DE: /^\d{5}$/,
+	DK: /^\d{4}$/,
+	ES: /^\d{5}$/,
+	FR: /^\d{5}$/,
+	GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+	IE: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+	IN: /^[1-9]\d{5}$/,
+	IT: /^\d{5}$/,
+	JP: /^\d{3}-?\d{4}$/,
+	NL: /^\d{4} ?[A-Z]{2}$/i,
+	NO: /^\d{4}$/,
+	PL: /^\d{2}-\d{3}$/,
+	PT: /^\d{4}-\d{3}$/,
+	SE: /^\d{3} ?\d{2}$/,
+	US: /^\d{5}(-\d{4})?$/,
+};
+
+export const postalCode = (
+	country: string,
+	message?: string,
+): FormValidationRule<string> => {
+	const regex = postalCodePatterns[country.toUpperCase()];
+	if (!regex) {
+		throw new Error(`No postal code format for country "${country}"`);
+	}
+	return createRule(
+		optional((value) => regex.test(value.trim())),
+		"postalCode",
+		message,
+	);
+};
+
+// Dates
+
+export type DateInput = Date | string | number;
+
+/** A fixed date, or a function for moving limits such as today */
+export type DateLimit = DateInput | (() => DateInput);
+
+const toDate = (value: DateInput) => {
+	const date = value instanceof Date ? value : new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const resolveLimit = (limit: DateLimit) =>
+	toDate(typeof limit === "function" ? limit() : limit);
+
+const formatDate = (date: Date | null) => date?.toLocaleDateString() ?? "";
+
+const createDateRule = (
+	test: (date: Date) => boolean,
+	key: ValidationMessageKey,
+	message: string | undefined,
+	getParams: () => ValidationMessageParams,
+): FormValidationRule<DateInput> => ({
+	validate: (value) => {
+		if (isEmpty(value)) return true;
+
+		const date = toDate(value);
+		if (!date) return message ?? formatValidationMessage("date");
+		return test(date) || (message ?? formatValidationMessage(key, getParams()));
+	},
+	...(message && { message }),
+});
+
+export const dateBefore = (
+	limit: DateLimit,
+	message?: string,
+): FormValidationRule<DateInput> =>
+	createDateRule(
+		(date) => {
+			const end = resolveLimit(limit);
+			return !!end && date < end;
+		},
+		"dateBefore",
+		message,
+		() => ({ date: formatDate(resolveLimit(limit)) }),
+	);
+
+export const dateAfter = (
+	limit: DateLimit,
+	message?: string,
+): FormValidationRule<DateInput> =>
+	createDateRule(
+		(date) => {
+			const start = resolveLimit(limit);
+			return !!start && date > start;
+		},
+		"dateAfter",
+		message,
+		() => ({ date: formatDate(resolveLimit(limit)) }),
+	);
+
+// Inclusive of both ends
+export const dateBetween = (
+	start: DateLimit,
+	end: DateLimit,
+	message?: string,
+): FormValidationRule<DateInput> =>
+	createDateRule(
+		(date) => {
+			const from = resolveLimit(start);
+			const to = resolveLimit(end);
+			return !!from && !!to && date >= from && date <= to;
+		},
+		"dateBetween",
+		message,
+		() => ({
+			start: formatDate(resolveLimit(start)),
+			end: formatDate(resolveLimit(end)),
+		}),
+	);
+
+// Files
+
+export type FileInput = File | File[] | FileList;
+
+const toFiles = (value: FileInput) =>
+	value instanceof Blob ? [value] : Array.from(value);
+
+const formatBytes = (bytes: number) => {
+	const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+	if (bytes === 0) return "0 Bytes";
+
+	const i = Math.floor(Math.log(bytes) / Math.log(1024));
+	return `${Math.round((bytes / 1024 ** i) * 100) / 100} ${sizes[i]}`;
+};
+
+export const fileSize = (
+	maxBytes: number,
+	message?: string,
+): FormValidationRule<FileInput> =>
+	createRule(
+		optional((value) => toFiles(value).every((file) => file.size <= maxBytes)),
+		"fileSize",
+		message,
+		{ max: formatBytes(maxBytes) },
+	);
+
+/**
+ * Accepts the same entries as an input's `accept` attribute: MIME types
+ * (`application/pdf`), wildcards (`image/*`) and extensions (`.csv`).
+ */
+export const fileType = (
+	types: string[],
+	message?: string,
+): FormValidationRule<FileInput> => {
+	const accepts = (file: File) =>
+		types.some((type) => {
+			const accepted = type.trim().toLowerCase();
+			if (accepted.startsWith(".")) {
+				return file.name.toLowerCase().endsWith(accepted);
+			}
+			if (accepted.endsWith("/*")) {
+				return file.type.startsWith(accepted.slice(0, -1));
+			}
+			return file.type === accepted;
+		});
+
+	return createRule(
+		optional((value) => toFiles(value).every(accepts)),
+		"fileType",
+		message,
+		{ types: types.join(", ") },
+	);
+};
+
+// Choices
+
+export const oneOf = <T>(
+	values: readonly T[],
+	message?: string,
+): FormValidationRule<T> =>
+	createRule(optional((value) => values.includes(value)), "oneOf", message, {
+		values: values.join(", "),
+	});
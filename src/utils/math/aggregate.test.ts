@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { aggregate } from "./aggregate";
+
+describe("aggregate", () => {
+	const values = [4, "6", null, "", 2];
+
+	it("should count every value", () => {
+		expect(aggregate(values, "count")).toBe(5);
+	});
+
+	it("should sum and average numeric values only", () => {
+		expect(aggregate(values, "sum")).toBe(12);
+		expect(aggregate(values, "avg")).toBe(4);
+	});
+
+	it("should find the minimum and maximum", () => {
+		expect(aggregate(values, "min")).toBe(2);
+		expect(aggregate(values, "max")).toBe(6);
+	});
+
+	it("should handle empty input", () => {
+		expect(aggregate([], "sum")).toBe(0);
+		expect(aggregate([], "avg")).toBeUndefined();
+		expect(aggregate([], "min")).toBeUndefined();
+		expect(aggregate([], "max")).toBeUndefined();
+	});
+});
@@ -0,0 +1,33 @@
+import { ref } from "vue";
+import { useAverage } from "./useAverage";
+import { useMinMax } from "./useMinMax";
+import { useSum } from "./useSum";
+
+export type AggregateType = "count" | "sum" | "avg" | "min" | "max";
+
+// Empty cells are skipped rather than counted as zero
+const toNumbers = (values: unknown[]) =>
+	values
+		.filter((value) => value !== null && value !== undefined && value !== "")
+		.map(Number)
+		.filter(Number.isFinite);
+
+export function aggregate(
+	values: unknown[],
+	type: AggregateType,
+): number | undefined {
+	if (type === "count") return values.length;
+
+	const numbers = ref(toNumbers(values));
+	if (type === "sum") return useSum(numbers).sum.value;
+	if (numbers.value.length === 0) return undefined;
+
+	switch (type) {
+		case "avg":
+			return useAverage(numbers).average.value;
+		case "min":
+			return useMinMax(numbers).min.value;
+		case "max":
+			return useMinMax(numbers).max.value;
+	}
+}
@@ -1,3 +1,4 @@
+export * from "./aggregate";
 export * from "./useAverage";
 export * from "./useCounter";
 export * from "./useMinMax";